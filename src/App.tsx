@@ -10,11 +10,18 @@ import { Discover } from "./pages/Discover";
 import { Sparks } from "./pages/Sparks";
 import { Composer } from "./pages/Composer";
 import { Profile } from "./pages/Profile";
+import { ProfilePosts } from "./pages/ProfilePosts";
 import { EditProfile } from "./pages/EditProfile";
 import { Messages } from "./pages/Messages";
 import { Notifications } from "./pages/Notifications";
+import { Saved } from "./pages/Saved";
+import { Scheduled } from "./pages/Scheduled";
+import { Drafts } from "./pages/Drafts";
+import { PostDetail } from "./pages/PostDetail";
+import { Tag } from "./pages/Tag";
 import { Auth } from "./pages/Auth";
 import NotFound from "./pages/NotFound";
+import { RealtimeProvider } from "@/hooks/use-post-realtime";
 
 const queryClient = new QueryClient();
 
@@ -23,29 +30,38 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/" element={
-            <ProtectedRoute>
-              <AppLayout />
-            </ProtectedRoute>
-          }>
-            <Route index element={<Navigate to="/home" replace />} />
-            <Route path="home" element={<Home />} />
-            <Route path="discover" element={<Discover />} />
-            <Route path="sparks" element={<Sparks />} />
-            <Route path="composer" element={<Composer />} />
-            <Route path="profile" element={<Profile />} />
-            <Route path="profile/edit" element={<EditProfile />} />
-            <Route path="profile/:userId" element={<Profile />} />
-            <Route path="messages" element={<Messages />} />
-            <Route path="notifications" element={<Notifications />} />
-          </Route>
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <RealtimeProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/" element={
+              <ProtectedRoute>
+                <AppLayout />
+              </ProtectedRoute>
+            }>
+              <Route index element={<Navigate to="/home" replace />} />
+              <Route path="home" element={<Home />} />
+              <Route path="discover" element={<Discover />} />
+              <Route path="sparks" element={<Sparks />} />
+              <Route path="sparks/:sparkId" element={<PostDetail />} />
+              <Route path="post/:postId" element={<PostDetail />} />
+              <Route path="tag/:name" element={<Tag />} />
+              <Route path="composer" element={<Composer />} />
+              <Route path="profile" element={<Profile />} />
+              <Route path="profile/edit" element={<EditProfile />} />
+              <Route path="profile/:userId" element={<Profile />} />
+              <Route path="profile/:userId/posts" element={<ProfilePosts />} />
+              <Route path="messages" element={<Messages />} />
+              <Route path="notifications" element={<Notifications />} />
+              <Route path="saved" element={<Saved />} />
+              <Route path="scheduled" element={<Scheduled />} />
+              <Route path="drafts" element={<Drafts />} />
+            </Route>
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </RealtimeProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
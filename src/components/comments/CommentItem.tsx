@@ -0,0 +1,85 @@
+import { Heart, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { VerifiedBadge } from "@/components/ui/verified-badge";
+import { ProfileLink } from "@/components/feed/ProfileLink";
+import { RichText } from "@/components/feed/RichText";
+import { DELETED_COMMENT_TEXT, type PostComment } from "@/lib/comments";
+
+interface CommentItemProps {
+  comment: PostComment;
+  canDelete: boolean;
+  highlighted?: boolean;
+  onLike: (comment: PostComment) => void;
+  onReply: (comment: PostComment) => void;
+  onDelete: (comment: PostComment) => void;
+}
+
+export const CommentItem = ({ comment, canDelete, highlighted, onLike, onReply, onDelete }: CommentItemProps) => {
+  const highlightClass = highlighted ? "bg-primary/10 -mx-2 px-2 py-1 rounded-lg" : "";
+
+  // Deleted comments stay as placeholders so their replies keep a parent
+  if (comment.deletedAt) {
+    return (
+      <div id={`comment-${comment.id}`} className={`flex gap-3 ${highlightClass}`}>
+        <div className="w-8 h-8 rounded-full bg-muted shrink-0" />
+        <p className="text-sm italic text-muted-foreground self-center">{DELETED_COMMENT_TEXT}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div id={`comment-${comment.id}`} className={`flex gap-3 ${highlightClass}`}>
+      <ProfileLink userId={comment.authorId}>
+        <img
+          src={comment.author.avatar}
+          alt={comment.author.username}
+          className="w-8 h-8 rounded-full object-cover"
+          width={32}
+          height={32}
+          loading="lazy"
+        />
+      </ProfileLink>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-start justify-between">
+          <ProfileLink userId={comment.authorId}>
+            <div className="flex items-center gap-1">
+              <span className="font-semibold text-sm">{comment.author.displayName}</span>
+              {comment.author.verified && <VerifiedBadge size="sm" />}
+              <span className="text-xs text-muted-foreground ml-1">@{comment.author.username}</span>
+            </div>
+          </ProfileLink>
+          {canDelete && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => onDelete(comment)}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+        <p className="text-sm mt-1 break-words"><RichText text={comment.content} /></p>
+        <div className="flex items-center gap-3 mt-1">
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+          </span>
+          <button
+            onClick={() => onLike(comment)}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <Heart className={`h-3 w-3 ${comment.liked ? "fill-red-500 text-red-500" : ""}`} />
+            {comment.likesCount > 0 && <span>{comment.likesCount}</span>}
+          </button>
+          <button
+            onClick={() => onReply(comment)}
+            className="text-xs font-medium text-muted-foreground hover:text-foreground"
+          >
+            Reply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import type { CommentTarget } from "@/lib/comments";
+import { CommentThread } from "./CommentThread";
+
+interface CommentSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: CommentTarget;
+}
+
+// Bottom sheet with the comment thread, for full-screen sparks and stories
+export const CommentSheet = ({ open, onOpenChange, target }: CommentSheetProps) => (
+  <Sheet open={open} onOpenChange={onOpenChange}>
+    <SheetContent side="bottom" className="h-[80vh] flex flex-col">
+      <SheetHeader>
+        <SheetTitle>Comments</SheetTitle>
+      </SheetHeader>
+
+      <CommentThread target={target} enabled={open} variant="sheet" className="flex-1" />
+    </SheetContent>
+  </Sheet>
+);
@@ -0,0 +1,24 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { CommentSort } from "@/lib/comments";
+
+interface CommentSortToggleProps {
+  value: CommentSort;
+  onChange: (sort: CommentSort) => void;
+}
+
+export const CommentSortToggle = ({ value, onChange }: CommentSortToggleProps) => (
+  <ToggleGroup
+    type="single"
+    size="sm"
+    value={value}
+    // Radix clears the value when the active item is clicked again
+    onValueChange={(next) => next && onChange(next as CommentSort)}
+  >
+    <ToggleGroupItem value="top" className="h-7 px-2 text-xs">
+      Top
+    </ToggleGroupItem>
+    <ToggleGroupItem value="newest" className="h-7 px-2 text-xs">
+      Newest
+    </ToggleGroupItem>
+  </ToggleGroup>
+);
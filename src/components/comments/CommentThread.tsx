@@ -0,0 +1,221 @@
+import { useState, useEffect, useRef } from "react";
+import { Send, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MentionInput } from "@/components/mentions/MentionInput";
+import { useComments } from "@/hooks/use-comments";
+import { groupCommentThreads, type CommentSort, type CommentTarget, type PostComment } from "@/lib/comments";
+import { cn } from "@/lib/utils";
+import { CommentItem } from "./CommentItem";
+import { CommentSortToggle } from "./CommentSortToggle";
+
+interface CommentThreadProps {
+  target: CommentTarget;
+  // Loading waits until the thread is actually shown
+  enabled?: boolean;
+  // "inline" sits under a card with the input on top; "sheet" fills its
+  // container with the input pinned to the bottom
+  variant?: "inline" | "sheet";
+  // Comment to scroll to and highlight once comments load (deep links)
+  highlightCommentId?: string;
+  className?: string;
+}
+
+// Comment list, replies and composer for a post, spark or story
+export const CommentThread = ({
+  target,
+  enabled = true,
+  variant = "inline",
+  highlightCommentId,
+  className,
+}: CommentThreadProps) => {
+  const [sort, setSort] = useState<CommentSort>("newest");
+  const {
+    currentUserId,
+    comments,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    expandedThreads,
+    expandThread,
+    collapseThread,
+    loadReplies,
+    loadingReplies,
+    hasMoreReplies,
+    revealComment,
+    addComment,
+    deleteComment,
+    toggleLike,
+  } = useComments(target, { enabled, sort });
+  const [newComment, setNewComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<PostComment | null>(null);
+  const revealedCommentRef = useRef(false);
+  const scrolledToCommentRef = useRef(false);
+
+  useEffect(() => {
+    setReplyingTo(null);
+  }, [target.type, target.id]);
+
+  // Drop the reply target if it disappears or becomes a placeholder
+  useEffect(() => {
+    if (replyingTo && !comments.some((c) => c.id === replyingTo.id && !c.deletedAt)) {
+      setReplyingTo(null);
+    }
+  }, [comments, replyingTo]);
+
+  useEffect(() => {
+    if (!highlightCommentId || scrolledToCommentRef.current || loading || !enabled) return;
+
+    // The target may be a reply or sit beyond the first page
+    const highlighted = comments.find((c) => c.id === highlightCommentId);
+    if (!highlighted) {
+      if (!revealedCommentRef.current) {
+        revealedCommentRef.current = true;
+        revealComment(highlightCommentId);
+      }
+      return;
+    }
+    if (highlighted.parentId && !expandedThreads.has(highlighted.parentId)) {
+      expandThread(highlighted.parentId);
+      return;
+    }
+
+    const element = document.getElementById(`comment-${highlightCommentId}`);
+    if (element) {
+      scrolledToCommentRef.current = true;
+      element.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [comments, highlightCommentId, expandedThreads, loading, enabled]);
+
+  const handleSubmit = async () => {
+    const content = newComment.trim();
+    if (!content || submitting) return;
+
+    setSubmitting(true);
+    const added = await addComment(content, replyingTo);
+    setSubmitting(false);
+
+    if (added) {
+      setNewComment("");
+      setReplyingTo(null);
+    }
+  };
+
+  const renderComment = (comment: PostComment) => (
+    <CommentItem
+      key={comment.id}
+      comment={comment}
+      canDelete={currentUserId === comment.authorId}
+      highlighted={comment.id === highlightCommentId}
+      onLike={toggleLike}
+      onReply={setReplyingTo}
+      onDelete={deleteComment}
+    />
+  );
+
+  const composer = (
+    <div className={variant === "sheet" ? "border-t pt-3" : "mb-4"}>
+      {replyingTo && (
+        <div className="flex items-center justify-between mb-2 text-xs text-muted-foreground">
+          <span>Replying to @{replyingTo.author.username}</span>
+          <Button variant="ghost" size="icon" className="h-5 w-5" onClick={() => setReplyingTo(null)}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <MentionInput
+          multiline={variant === "sheet"}
+          placeholder={replyingTo ? "Write a reply..." : "Add a comment..."}
+          value={newComment}
+          onChange={setNewComment}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          disabled={submitting}
+          className={variant === "sheet" ? "min-h-[60px]" : "flex-1"}
+        />
+        <Button size="icon" onClick={handleSubmit} disabled={!newComment.trim() || submitting}>
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+
+  const list = (
+    <div className={cn("space-y-3 overflow-y-auto", variant === "sheet" ? "flex-1 py-4" : "max-h-[300px]")}>
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="w-6 h-6 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No comments yet. Be the first to comment!
+        </p>
+      ) : (
+        <>
+          {groupCommentThreads(comments).map(({ comment, replies }) => {
+            const replyCount = Math.max(comment.repliesCount, replies.length);
+            const expanded = expandedThreads.has(comment.id);
+
+            return (
+              <div key={comment.id} className="space-y-3">
+                {renderComment(comment)}
+                {replyCount > 0 && (
+                  <div className="ml-11 space-y-3">
+                    {expanded && replies.map(renderComment)}
+                    {expanded && hasMoreReplies(comment) && (
+                      <button
+                        onClick={() => loadReplies(comment.id)}
+                        disabled={loadingReplies.has(comment.id)}
+                        className="block text-xs font-medium text-muted-foreground hover:text-foreground"
+                      >
+                        {loadingReplies.has(comment.id) ? "Loading..." : "View more replies"}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => (expanded ? collapseThread(comment.id) : expandThread(comment.id))}
+                      className="block text-xs font-medium text-muted-foreground hover:text-foreground"
+                    >
+                      {expanded
+                        ? "Hide replies"
+                        : `View ${replyCount} ${replyCount === 1 ? "reply" : "replies"}`}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {hasMore && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full text-xs"
+              onClick={loadMore}
+              disabled={loadingMore}
+            >
+              {loadingMore ? "Loading..." : "Load more comments"}
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div className={cn(variant === "sheet" && "flex flex-col min-h-0", className)}>
+      {variant === "inline" && composer}
+      <div className="flex items-center justify-between mb-2">
+        {/* Sheets already carry a "Comments" title */}
+        <span className="text-xs font-medium text-muted-foreground">{variant === "inline" && "Comments"}</span>
+        <CommentSortToggle value={sort} onChange={setSort} />
+      </div>
+      {list}
+      {variant === "sheet" && composer}
+    </div>
+  );
+};
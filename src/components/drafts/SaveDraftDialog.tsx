@@ -0,0 +1,41 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+
+interface SaveDraftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: () => void;
+  onDiscard: () => void;
+  busy?: boolean;
+}
+
+// Asked when leaving the composer or story sheet with unpublished work
+export const SaveDraftDialog = ({ open, onOpenChange, onSave, onDiscard, busy }: SaveDraftDialogProps) => (
+  <AlertDialog open={open} onOpenChange={onOpenChange}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Save as draft?</AlertDialogTitle>
+        <AlertDialogDescription>
+          Drafts keep your caption and media so you can finish later, on any device.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter className="gap-2">
+        <AlertDialogCancel disabled={busy}>Keep editing</AlertDialogCancel>
+        <Button variant="outline" onClick={onDiscard} disabled={busy} className="text-destructive hover:text-destructive">
+          Discard
+        </Button>
+        <Button onClick={onSave} disabled={busy}>
+          Save draft
+        </Button>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
@@ -0,0 +1,126 @@
+import { useState, useEffect } from "react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { MentionInput } from "@/components/mentions/MentionInput";
+import type { PostMedia } from "@/lib/feed";
+
+interface EditPostSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  postId: string;
+  caption: string;
+  media: PostMedia[];
+  onSaved?: (changes: { caption: string; media: PostMedia[]; editedAt: string | null }) => void;
+}
+
+export const EditPostSheet = ({ open, onOpenChange, postId, caption, media, onSaved }: EditPostSheetProps) => {
+  const [draftCaption, setDraftCaption] = useState(caption);
+  const [altText, setAltText] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Start from the current version every time the sheet opens
+  useEffect(() => {
+    if (open) {
+      setDraftCaption(caption);
+      setAltText(Object.fromEntries(media.map((item) => [item.id, item.alt || ""])));
+    }
+  }, [open]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { data: editedAt, error } = await supabase.rpc("edit_post", {
+        p_post_id: postId,
+        p_caption: draftCaption.trim(),
+        p_media_alt_text: media.map((item) => ({ id: item.id, alt: altText[item.id] || "" })),
+      });
+
+      if (error) throw error;
+
+      onSaved?.({
+        caption: draftCaption.trim(),
+        media: media.map((item) => ({ ...item, alt: altText[item.id]?.trim() || undefined })),
+        editedAt,
+      });
+      onOpenChange(false);
+      toast({
+        title: "Post updated",
+        description: "Your changes have been saved",
+      });
+    } catch (error) {
+      console.error("Error editing post:", error);
+      toast({
+        title: "Failed to update post",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[90vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Edit Post</SheetTitle>
+        </SheetHeader>
+
+        <div className="flex flex-col gap-4 mt-6">
+          {/* Caption */}
+          <div>
+            <MentionInput
+              multiline
+              placeholder="Share what's on your mind..."
+              value={draftCaption}
+              onChange={setDraftCaption}
+              className="min-h-[120px] rounded-2xl border-border resize-none"
+              maxLength={2200}
+              disabled={saving}
+            />
+            <div className="text-right text-xs text-muted-foreground mt-1">
+              {draftCaption.length}/2200
+            </div>
+          </div>
+
+          {/* Alt text */}
+          {media.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="font-medium text-sm">Alt text</h3>
+              {media.map((item, index) => (
+                <div key={item.id} className="flex items-center gap-3">
+                  {item.type === "video" ? (
+                    <video
+                      src={item.url}
+                      poster={item.posterUrl}
+                      className="w-12 h-12 rounded-lg object-cover shrink-0"
+                      preload={item.posterUrl ? "none" : "metadata"}
+                      muted
+                    />
+                  ) : (
+                    <img src={item.url} alt="" className="w-12 h-12 rounded-lg object-cover shrink-0" />
+                  )}
+                  <Input
+                    placeholder={`Describe ${item.type === "video" ? "video" : "image"} ${index + 1}`}
+                    value={altText[item.id] || ""}
+                    onChange={(e) => setAltText((current) => ({ ...current, [item.id]: e.target.value }))}
+                    maxLength={1000}
+                    disabled={saving}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button onClick={handleSave} disabled={saving} className="w-full rounded-full">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
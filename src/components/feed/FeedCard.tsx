@@ -1,4 +1,4 @@
-import { Heart, MessageCircle, Share, Bookmark, MoreHorizontal, Send, Trash2, Pin } from "lucide-react";
+import { Heart, MessageCircle, Share, Bookmark, MoreHorizontal, Trash2, Pin, FolderPlus, UserMinus, Pencil, Repeat2, Quote } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState, useEffect } from "react";
 import { ProfileLink } from "./ProfileLink";
@@ -6,7 +6,6 @@ import { VerifiedBadge } from "@/components/ui/verified-badge";
 
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Input } from "@/components/ui/input";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -23,202 +22,203 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-
-interface FeedPost {
-  id: string;
-  authorId: string;
-  author: {
-    username: string;
-    displayName: string;
-    avatar: string;
-    verified?: boolean;
-    isFollowing?: boolean;
-  };
-  content: {
-    type: "image" | "video" | "text";
-    url?: string;
-    caption: string;
-  };
-  engagement: {
-    likes: number;
-    comments: number;
-    shares: number;
-  };
-  timestamp: string;
-  brandTag?: {
-    name: string;
-    offer?: string;
-  };
-}
+import { deletePost, fetchFeedPage, type FeedPost } from "@/lib/feed";
+import { CommentThread } from "@/components/comments/CommentThread";
+import { usePendingEchoes } from "@/hooks/use-pending-echoes";
+import { usePostRealtime } from "@/hooks/use-post-realtime";
+import { useFollow } from "@/hooks/use-follow";
+import { CollectionPickerDialog } from "@/components/saved/CollectionPickerDialog";
+import { ShareSheet } from "@/components/sparks/ShareSheet";
+import { MediaCarousel } from "./MediaCarousel";
+import { EditPostSheet } from "./EditPostSheet";
+import { PostHistorySheet } from "./PostHistorySheet";
+import { RichText } from "./RichText";
+import { LinkPreviewCard } from "./LinkPreviewCard";
+import { ReactionPicker } from "./ReactionPicker";
+import { QuotedPostEmbed } from "./QuotedPostEmbed";
+import { QuoteSheet } from "./QuoteSheet";
+import { PollCard } from "@/components/polls/PollCard";
+import { OfferCard } from "@/components/offers/OfferCard";
+import { MAX_PINNED_POSTS, isPinLimitError } from "@/lib/pins";
+import { castPollVote, toPostPoll, type PollOption } from "@/lib/polls";
+import { useLongPress } from "@/hooks/use-long-press";
+import {
+  adjustReactionCount,
+  getReactionTotal,
+  getTopReactions,
+  isReactionEmoji,
+  type ReactionCounts,
+  type ReactionEmoji,
+} from "@/lib/reactions";
 
 interface FeedCardProps {
   post: FeedPost;
   onPostDeleted?: (postId: string) => void;
+  onSaveChange?: (postId: string, saved: boolean) => void;
+  onFollowChange?: (authorId: string, following: boolean) => void;
+  onPinChange?: (postId: string, pinned: boolean) => void;
+  defaultShowComments?: boolean;
+  // Comment to scroll to and highlight once comments load (deep links)
+  highlightCommentId?: string;
 }
 
-interface Comment {
-  id: string;
-  user_id: string;
-  content: string;
-  created_at: string;
-  profiles: {
-    handle: string;
-    display_name: string;
-    avatar_url: string;
-    verified?: boolean;
-  };
-  liked?: boolean;
-  likes_count?: number;
-}
-
-export const FeedCard = ({ post, onPostDeleted }: FeedCardProps) => {
+export const FeedCard = ({
+  post,
+  onPostDeleted,
+  onSaveChange,
+  onFollowChange,
+  onPinChange,
+  defaultShowComments = false,
+  highlightCommentId,
+}: FeedCardProps) => {
   const { toast } = useToast();
-  const [isLiked, setIsLiked] = useState(false);
-  const [isSaved, setIsSaved] = useState(false);
-  const [isFollowing, setIsFollowing] = useState(post.author.isFollowing || false);
+  const [isLiked, setIsLiked] = useState(post.viewer?.liked || false);
+  const [isSaved, setIsSaved] = useState(post.viewer?.saved || false);
+  const [saving, setSaving] = useState(false);
+  const [showCollectionPicker, setShowCollectionPicker] = useState(false);
+  const { isFollowing, pending: followPending, follow, unfollow } = useFollow(post.authorId, {
+    initialFollowing: post.author.isFollowing || false,
+    onChange: onFollowChange,
+  });
   const [likesCount, setLikesCount] = useState(post.engagement.likes);
+  const [liking, setLiking] = useState(false);
+  const [reactionCounts, setReactionCounts] = useState<ReactionCounts>(post.engagement.reactions || {});
+  const [viewerReactions, setViewerReactions] = useState<ReactionEmoji[]>(post.viewer?.reactions || []);
+  const [reacting, setReacting] = useState(false);
+  const [showReactionPicker, setShowReactionPicker] = useState(false);
+  const [poll, setPoll] = useState(post.poll);
+  const [voting, setVoting] = useState(false);
+  const { handlers: likeButtonHandlers, consumeLongPress } = useLongPress(() => setShowReactionPicker(true));
   const [commentsCount, setCommentsCount] = useState(post.engagement.comments);
-  const [comments, setComments] = useState<Comment[]>([]);
-  const [showComments, setShowComments] = useState(false);
-  const [newComment, setNewComment] = useState("");
-  const [submittingComment, setSubmittingComment] = useState(false);
+  const [showComments, setShowComments] = useState(defaultShowComments);
+  const [sharesCount, setSharesCount] = useState(post.engagement.shares);
+  const [repostsCount, setRepostsCount] = useState(post.engagement.reposts || 0);
+  const [isReposted, setIsReposted] = useState(post.viewer?.reposted || false);
+  const [reposting, setReposting] = useState(false);
+  const [showQuoteSheet, setShowQuoteSheet] = useState(false);
+  const [showShareSheet, setShowShareSheet] = useState(false);
+  const [caption, setCaption] = useState(post.content.caption);
+  const [media, setMedia] = useState(post.content.media || []);
+  const [editedAt, setEditedAt] = useState(post.editedAt);
+  const [showEditSheet, setShowEditSheet] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [deleting, setDeleting] = useState(false);
-  const [isPinned, setIsPinned] = useState(false);
+  const [isPinned, setIsPinned] = useState(post.viewer?.pinned || false);
   const [pinning, setPinning] = useState(false);
+  const { expectEcho, cancelEcho, consumeEcho } = usePendingEchoes();
 
   useEffect(() => {
-    loadEngagementData();
-    
-    // Subscribe to likes changes
-    const likesChannel = supabase
-      .channel(`post-${post.id}-likes`)
-      .on('postgres_changes', {
-        event: '*',
-        schema: 'public',
-        table: 'likes',
-        filter: `post_id=eq.${post.id}`
-      }, () => {
-        loadLikes();
-      })
-      .subscribe();
-
-    // Subscribe to comments changes
-    const commentsChannel = supabase
-      .channel(`post-${post.id}-comments`)
-      .on('postgres_changes', {
-        event: '*',
-        schema: 'public',
-        table: 'comments',
-        filter: `post_id=eq.${post.id}`
-      }, () => {
-        loadComments();
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(likesChannel);
-      supabase.removeChannel(commentsChannel);
-    };
+    loadCurrentUser();
+    if (!post.viewer) {
+      loadEngagement();
+    }
   }, [post.id]);
 
-  const loadEngagementData = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    setCurrentUserId(user?.id || null);
-    
-    await Promise.all([loadLikes(), loadComments(), loadPinStatus()]);
-  };
+  // Patch counts and the comment list straight from realtime payloads. Likes,
+  // reactions and reposts made from this card are applied when tapped, so
+  // only the events for those writes are skipped; the viewer's actions from
+  // another tab or device still come through.
+  usePostRealtime(post.id, (event) => {
+    if (event.table === 'likes') {
+      const row = event.eventType === 'DELETE' ? event.old : event.new;
+      if (consumeEcho(`likes:${event.eventType}:${row.user_id}`)) return;
+
+      const isViewer = row.user_id === currentUserId;
+      if (event.eventType === 'INSERT') {
+        setLikesCount((count) => count + 1);
+        if (isViewer) setIsLiked(true);
+      } else if (event.eventType === 'DELETE') {
+        setLikesCount((count) => Math.max(count - 1, 0));
+        if (isViewer) setIsLiked(false);
+      }
+      return;
+    }
 
-  const loadLikes = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    // Count total likes
-    const { count } = await supabase
-      .from('likes')
-      .select('*', { count: 'exact', head: true })
-      .eq('post_id', post.id);
-    
-    setLikesCount(count || 0);
-    
-    // Check if current user liked
-    if (user) {
-      const { data } = await supabase
-        .from('likes')
-        .select('id')
-        .eq('post_id', post.id)
-        .eq('user_id', user.id)
-        .maybeSingle();
-      
-      setIsLiked(!!data);
+    if (event.table === 'reactions') {
+      const row = event.eventType === 'DELETE' ? event.old : event.new;
+      if (!isReactionEmoji(row.emoji)) return;
+      if (consumeEcho(`reactions:${event.eventType}:${row.user_id}:${row.emoji}`)) return;
+
+      const emoji = row.emoji;
+      const isViewer = row.user_id === currentUserId;
+      if (event.eventType === 'INSERT') {
+        setReactionCounts((counts) => adjustReactionCount(counts, emoji, 1));
+        if (isViewer) {
+          setViewerReactions((current) => (current.includes(emoji) ? current : [...current, emoji]));
+        }
+      } else if (event.eventType === 'DELETE') {
+        setReactionCounts((counts) => adjustReactionCount(counts, emoji, -1));
+        if (isViewer) {
+          setViewerReactions((current) => current.filter((item) => item !== emoji));
+        }
+      }
+      return;
     }
-  };
 
-  const loadComments = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    const { data, error } = await supabase
-      .from('comments')
-      .select(`
-        id,
-        user_id,
-        content,
-        created_at,
-        profiles!comments_user_id_fkey (
-          handle,
-          display_name,
-          avatar_url,
-          verified
-        )
-      `)
-      .eq('post_id', post.id)
-      .order('created_at', { ascending: false });
-    
-    if (!error && data) {
-      // Load likes for each comment
-      const commentsWithLikes = await Promise.all(
-        data.map(async (comment) => {
-          const { count } = await supabase
-            .from('comment_likes')
-            .select('*', { count: 'exact', head: true })
-            .eq('comment_id', comment.id);
-
-          let liked = false;
-          if (user) {
-            const { data: likeData } = await supabase
-              .from('comment_likes')
-              .select('id')
-              .eq('comment_id', comment.id)
-              .eq('user_id', user.id)
-              .maybeSingle();
-            liked = !!likeData;
-          }
-
-          return {
-            ...comment,
-            likes_count: count || 0,
-            liked,
-          };
-        })
-      );
-
-      setComments(commentsWithLikes as any);
-      setCommentsCount(data.length);
+    if (event.table === 'poll_votes') {
+      const row = event.eventType === 'DELETE' ? event.old : event.new;
+      const delta = event.eventType === 'INSERT' ? 1 : event.eventType === 'DELETE' ? -1 : 0;
+      if (delta === 0) return;
+
+      setPoll((current) => current && {
+        ...current,
+        options: current.options.map((option) =>
+          option.id === row.option_id ? { ...option, votes: Math.max(option.votes + delta, 0) } : option
+        ),
+        viewerOptionId: delta > 0 && row.user_id === currentUserId ? row.option_id : current.viewerOptionId,
+      });
+      return;
     }
-  };
 
-  const loadPinStatus = async () => {
+    if (event.table === 'reposts') {
+      const row = event.eventType === 'DELETE' ? event.old : event.new;
+      if (consumeEcho(`reposts:${event.eventType}:${row.user_id}`)) return;
+
+      const isViewer = row.user_id === currentUserId;
+      if (event.eventType === 'INSERT') {
+        setRepostsCount((count) => count + 1);
+        if (isViewer) setIsReposted(true);
+      } else if (event.eventType === 'DELETE') {
+        setRepostsCount((count) => Math.max(count - 1, 0));
+        if (isViewer) setIsReposted(false);
+      }
+      return;
+    }
+
+    // The comment list itself is kept live by CommentThread
+    if (event.eventType === 'INSERT') {
+      setCommentsCount((count) => count + 1);
+    } else if (event.eventType === 'DELETE') {
+      setCommentsCount((count) => Math.max(count - 1, 0));
+    }
+  });
+
+  const loadCurrentUser = async () => {
     const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    const { data } = await supabase
-      .from('pinned_posts')
-      .select('id')
-      .eq('user_id', user.id)
-      .eq('post_id', post.id)
-      .maybeSingle();
-    
-    setIsPinned(!!data);
+    setCurrentUserId(user?.id || null);
+  };
+
+  const loadEngagement = async () => {
+    try {
+      const [row] = await fetchFeedPage({ postIds: [post.id] });
+      if (!row) return;
+
+      setLikesCount(row.likes_count);
+      setCommentsCount(row.comments_count);
+      setSharesCount(row.shares_count);
+      setRepostsCount(row.reposts_count);
+      setIsReposted(row.viewer_has_reposted);
+      setIsLiked(row.viewer_has_liked);
+      setReactionCounts((row.reaction_counts as ReactionCounts | null) || {});
+      setViewerReactions((row.viewer_reactions || []).filter(isReactionEmoji));
+      setPoll(toPostPoll(row.poll));
+      setIsPinned(row.viewer_has_pinned);
+      setIsSaved(row.viewer_has_saved);
+    } catch (error) {
+      console.error('Error loading engagement:', error);
+    }
   };
 
   const handleLike = async () => {
@@ -232,19 +232,31 @@ export const FeedCard = ({ post, onPostDeleted }: FeedCardProps) => {
       return;
     }
 
+    if (liking) return;
+
+    // Update right away and roll back if the write fails
+    const liked = !isLiked;
+    const echo = `likes:${liked ? 'INSERT' : 'DELETE'}:${user.id}`;
+    setIsLiked(liked);
+    setLikesCount((count) => Math.max(count + (liked ? 1 : -1), 0));
+    expectEcho(echo);
+    setLiking(true);
+
     try {
-      if (isLiked) {
+      if (!liked) {
         // Unlike
-        await supabase
+        const { error } = await supabase
           .from('likes')
           .delete()
           .eq('post_id', post.id)
           .eq('user_id', user.id);
+        if (error) throw error;
       } else {
         // Like
-        await supabase
+        const { error } = await supabase
           .from('likes')
           .insert({ post_id: post.id, user_id: user.id });
+        if (error) throw error;
 
         // Create notification if not liking own post
         if (user.id !== post.authorId) {
@@ -268,152 +280,170 @@ export const FeedCard = ({ post, onPostDeleted }: FeedCardProps) => {
       }
     } catch (error) {
       console.error('Error toggling like:', error);
+      cancelEcho(echo);
+      setIsLiked(!liked);
+      setLikesCount((count) => Math.max(count + (liked ? -1 : 1), 0));
       toast({
         title: "Error",
         description: "Failed to update like",
         variant: "destructive"
       });
+    } finally {
+      setLiking(false);
     }
   };
 
-  const handleAddComment = async () => {
-    if (!newComment.trim()) return;
-    
+  // Tapping the heart likes; a long press opens the picker instead
+  const handleLikeClick = () => {
+    if (consumeLongPress()) return;
+    handleLike();
+  };
+
+  const handleToggleReaction = async (emoji: ReactionEmoji) => {
+    setShowReactionPicker(false);
+
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
       toast({
         title: "Not authenticated",
-        description: "Please log in to comment",
+        description: "Please log in to react to posts",
         variant: "destructive"
       });
       return;
     }
 
-    setSubmittingComment(true);
+    if (reacting) return;
+
+    // Update right away and roll back if the write fails
+    const previousReactions = viewerReactions;
+    const removing = viewerReactions.includes(emoji);
+    const echo = `reactions:${removing ? 'DELETE' : 'INSERT'}:${user.id}:${emoji}`;
+    setViewerReactions(removing ? viewerReactions.filter((item) => item !== emoji) : [...viewerReactions, emoji]);
+    setReactionCounts((counts) => adjustReactionCount(counts, emoji, removing ? -1 : 1));
+    expectEcho(echo);
+    setReacting(true);
+
     try {
-      const { error } = await supabase
-        .from('comments')
-        .insert({
-          post_id: post.id,
-          user_id: user.id,
-          content: newComment.trim()
-        });
-      
-      if (error) throw error;
-
-      // Create notification if not commenting on own post
-      if (user.id !== post.authorId) {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('display_name')
+      if (removing) {
+        const { error } = await supabase
+          .from('reactions')
+          .delete()
+          .eq('post_id', post.id)
           .eq('user_id', user.id)
-          .single();
-
-        await supabase
-          .from('notifications')
-          .insert({
-            user_id: post.authorId,
-            type: 'comment',
-            title: 'New Comment',
-            message: `${profile?.display_name || 'Someone'} commented on your post`,
-            actor_id: user.id,
-            post_id: post.id
-          });
+          .eq('emoji', emoji);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('reactions')
+          .insert({ post_id: post.id, user_id: user.id, emoji });
+        if (error) throw error;
       }
-      
-      setNewComment("");
-      toast({
-        title: "Comment added",
-        description: "Your comment has been posted"
-      });
     } catch (error) {
-      console.error('Error adding comment:', error);
+      console.error('Error toggling reaction:', error);
+      cancelEcho(echo);
+      setViewerReactions(previousReactions);
+      setReactionCounts((counts) => adjustReactionCount(counts, emoji, removing ? 1 : -1));
       toast({
         title: "Error",
-        description: "Failed to add comment",
+        description: "Failed to update reaction",
         variant: "destructive"
       });
     } finally {
-      setSubmittingComment(false);
+      setReacting(false);
     }
   };
 
-  const handleDeleteComment = async (commentId: string) => {
-    try {
-      const { error } = await supabase
-        .from('comments')
-        .delete()
-        .eq('id', commentId);
-      
-      if (error) throw error;
-      
+  const handleToggleRepost = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
       toast({
-        title: "Comment deleted",
-        description: "Your comment has been removed"
+        title: "Not authenticated",
+        description: "Please log in to repost",
+        variant: "destructive"
       });
+      return;
+    }
+
+    if (reposting) return;
+
+    // Update right away and roll back if the write fails
+    const reposted = !isReposted;
+    const echo = `reposts:${reposted ? 'INSERT' : 'DELETE'}:${user.id}`;
+    setIsReposted(reposted);
+    setRepostsCount((count) => Math.max(count + (reposted ? 1 : -1), 0));
+    expectEcho(echo);
+    setReposting(true);
+
+    try {
+      if (!reposted) {
+        const { error } = await supabase
+          .from('reposts')
+          .delete()
+          .eq('post_id', post.id)
+          .eq('user_id', user.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('reposts')
+          .insert({ post_id: post.id, user_id: user.id });
+        if (error) throw error;
+
+        toast({
+          title: "Reposted",
+          description: `Shared @${post.author.username}'s post with your followers`
+        });
+      }
     } catch (error) {
-      console.error('Error deleting comment:', error);
+      console.error('Error toggling repost:', error);
+      cancelEcho(echo);
+      setIsReposted(!reposted);
+      setRepostsCount((count) => Math.max(count + (reposted ? -1 : 1), 0));
       toast({
         title: "Error",
-        description: "Failed to delete comment",
+        description: "Failed to update repost",
         variant: "destructive"
       });
+    } finally {
+      setReposting(false);
     }
   };
 
-  const toggleCommentLike = async (commentId: string) => {
-    if (!currentUserId) {
+  const handleVote = async (option: PollOption) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
       toast({
         title: "Not authenticated",
-        description: "Please log in to like comments",
+        description: "Please log in to vote",
         variant: "destructive"
       });
       return;
     }
 
-    const comment = comments.find(c => c.id === commentId);
-    if (!comment) return;
-
+    setVoting(true);
     try {
-      if (comment.liked) {
-        await supabase
-          .from('comment_likes')
-          .delete()
-          .eq('comment_id', commentId)
-          .eq('user_id', currentUserId);
-      } else {
-        await supabase
-          .from('comment_likes')
-          .insert({ comment_id: commentId, user_id: currentUserId });
-      }
-      loadComments();
+      await castPollVote({ postId: post.id, optionId: option.id, userId: user.id });
+      // Show results right away; the tally itself follows from the realtime event
+      setPoll((current) => current && { ...current, viewerOptionId: option.id });
     } catch (error) {
-      console.error('Error toggling comment like:', error);
+      console.error('Error voting:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record your vote",
+        variant: "destructive"
+      });
+    } finally {
+      setVoting(false);
     }
   };
 
+  const topReactions = getTopReactions(reactionCounts);
+  const reactionTotal = getReactionTotal(reactionCounts);
+
   const handleDeletePost = async () => {
     setDeleting(true);
     try {
-      // Delete from storage if there's a content URL
-      if (post.content.url) {
-        const urlParts = post.content.url.split('/');
-        const bucket = urlParts[urlParts.length - 3]; // 'posts' or 'sparks'
-        const filePath = urlParts.slice(-2).join('/'); // 'user_id/filename'
-        
-        await supabase.storage
-          .from(bucket)
-          .remove([filePath]);
-      }
+      await deletePost(post);
 
-      // Delete the post from database (this will cascade delete likes, comments, notifications)
-      const { error } = await supabase
-        .from('posts')
-        .delete()
-        .eq('id', post.id);
-      
-      if (error) throw error;
-      
       toast({
         title: "Post deleted",
         description: "Your post has been removed"
@@ -451,37 +481,43 @@ export const FeedCard = ({ post, onPostDeleted }: FeedCardProps) => {
     try {
       if (isPinned) {
         // Unpin
-        await supabase
+        const { error } = await supabase
           .from('pinned_posts')
           .delete()
           .eq('user_id', user.id)
           .eq('post_id', post.id);
-        
+        if (error) throw error;
+
         setIsPinned(false);
+        onPinChange?.(post.id, false);
         toast({
           title: "Post unpinned",
-          description: "Post removed from your pinned collection"
+          description: "Post removed from the top of your profile"
         });
       } else {
         // Pin
-        await supabase
+        const { error } = await supabase
           .from('pinned_posts')
           .insert({
             user_id: user.id,
             post_id: post.id
           });
-        
+        if (error) throw error;
+
         setIsPinned(true);
+        onPinChange?.(post.id, true);
         toast({
           title: "Post pinned",
-          description: "Post added to your pinned collection"
+          description: "Post shown at the top of your profile"
         });
       }
     } catch (error) {
       console.error('Error toggling pin:', error);
       toast({
-        title: "Error",
-        description: "Failed to update pin status",
+        title: isPinLimitError(error) ? "Pin limit reached" : "Error",
+        description: isPinLimitError(error)
+          ? `You can pin up to ${MAX_PINNED_POSTS} posts. Unpin one first.`
+          : "Failed to update pin status",
         variant: "destructive"
       });
     } finally {
@@ -489,6 +525,48 @@ export const FeedCard = ({ post, onPostDeleted }: FeedCardProps) => {
     }
   };
 
+  const handleToggleSave = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast({
+        title: "Not authenticated",
+        description: "Please log in to save posts",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const wasSaved = isSaved;
+    setIsSaved(!wasSaved);
+    setSaving(true);
+    try {
+      if (wasSaved) {
+        const { error } = await supabase
+          .from('saved_posts')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('post_id', post.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('saved_posts')
+          .insert({ user_id: user.id, post_id: post.id });
+        if (error) throw error;
+      }
+      onSaveChange?.(post.id, !wasSaved);
+    } catch (error) {
+      console.error('Error toggling save:', error);
+      setIsSaved(wasSaved);
+      toast({
+        title: "Error",
+        description: "Failed to update saved posts",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const formatNumber = (num: number) => {
     if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
     if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
@@ -497,6 +575,16 @@ export const FeedCard = ({ post, onPostDeleted }: FeedCardProps) => {
 
   return (
     <article className="feed-card animate-fade-in">
+      {post.repostedBy && (
+        <div className="flex items-center gap-1 px-4 pt-3 -mb-2 text-xs font-medium text-muted-foreground">
+          <Repeat2 className="h-3.5 w-3.5" />
+          <ProfileLink userId={post.repostedBy.userId} className="hover:underline">
+            {post.repostedBy.userId === currentUserId ? "You" : `@${post.repostedBy.username}`}
+          </ProfileLink>
+          <span>reposted</span>
+        </div>
+      )}
+
       {/* Author Header */}
       <div className="flex items-center justify-between p-4">
         <ProfileLink userId={post.authorId} className="flex items-center gap-3">
@@ -513,7 +601,10 @@ export const FeedCard = ({ post, onPostDeleted }: FeedCardProps) => {
               <span className="font-semibold text-sm">{post.author.displayName}</span>
               {post.author.verified && <VerifiedBadge />}
             </div>
-            <span className="text-xs text-muted-foreground">@{post.author.username}</span>
+            <span className="text-xs text-muted-foreground">
+              @{post.author.username}
+              {post.offer && " · Sponsored"}
+            </span>
           </div>
         </ProfileLink>
         
@@ -521,7 +612,8 @@ export const FeedCard = ({ post, onPostDeleted }: FeedCardProps) => {
           {!isFollowing && currentUserId !== post.authorId && (
             <Button
               size="sm"
-              onClick={() => setIsFollowing(true)}
+              onClick={follow}
+              disabled={followPending}
               className="h-8 px-4 rounded-full text-xs font-medium"
             >
               Follow
@@ -534,13 +626,31 @@ export const FeedCard = ({ post, onPostDeleted }: FeedCardProps) => {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-48">
-              <DropdownMenuItem
-                onClick={handleTogglePin}
-                disabled={pinning}
-              >
-                <Pin className="h-4 w-4 mr-2" />
-                {isPinned ? 'Unpin' : 'Pin'} Post
+              {currentUserId === post.authorId && (
+                <DropdownMenuItem
+                  onClick={handleTogglePin}
+                  disabled={pinning}
+                >
+                  <Pin className="h-4 w-4 mr-2" />
+                  {isPinned ? 'Unpin from Profile' : 'Pin to Profile'}
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => setShowCollectionPicker(true)}>
+                <FolderPlus className="h-4 w-4 mr-2" />
+                Save to Collection
               </DropdownMenuItem>
+              {isFollowing && currentUserId !== post.authorId && (
+                <DropdownMenuItem onClick={unfollow} disabled={followPending}>
+                  <UserMinus className="h-4 w-4 mr-2" />
+                  Unfollow @{post.author.username}
+                </DropdownMenuItem>
+              )}
+              {currentUserId === post.authorId && (
+                <DropdownMenuItem onClick={() => setShowEditSheet(true)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit Post
+                </DropdownMenuItem>
+              )}
               {currentUserId === post.authorId && (
                 <DropdownMenuItem
                   className="text-destructive focus:text-destructive"
@@ -556,9 +666,11 @@ export const FeedCard = ({ post, onPostDeleted }: FeedCardProps) => {
       </div>
 
       {/* Content */}
-      {post.content.url && (
+      {(media.length > 0 || post.content.url) && (
         <div className="relative">
-          {post.content.type === "image" ? (
+          {media.length > 0 ? (
+            <MediaCarousel media={media} />
+          ) : post.content.type === "image" ? (
             <img
               src={post.content.url}
               alt="Post content"
@@ -587,17 +699,29 @@ export const FeedCard = ({ post, onPostDeleted }: FeedCardProps) => {
         </div>
       )}
 
+      {poll && (
+        <PollCard poll={poll} voting={voting} onVote={handleVote} className="px-4 pt-2" />
+      )}
+
       {/* Engagement Actions */}
       <div className="p-4">
         <div className="flex items-center justify-between mb-3">
           <div className="flex items-center gap-4">
-            <button
-              onClick={handleLike}
-              className="engagement-button"
+            <ReactionPicker
+              open={showReactionPicker}
+              onOpenChange={setShowReactionPicker}
+              selected={viewerReactions}
+              onSelect={handleToggleReaction}
             >
-              <Heart className={`h-5 w-5 ${isLiked ? 'fill-destructive text-destructive' : ''}`} />
-              <span className="text-sm font-medium">{formatNumber(likesCount)}</span>
-            </button>
+              <button
+                onClick={handleLikeClick}
+                {...likeButtonHandlers}
+                className="engagement-button select-none"
+              >
+                <Heart className={`h-5 w-5 ${isLiked ? 'fill-destructive text-destructive' : ''}`} />
+                <span className="text-sm font-medium">{formatNumber(likesCount)}</span>
+              </button>
+            </ReactionPicker>
             
             <button 
               className="engagement-button"
@@ -606,123 +730,142 @@ export const FeedCard = ({ post, onPostDeleted }: FeedCardProps) => {
               <MessageCircle className="h-5 w-5" />
               <span className="text-sm font-medium">{formatNumber(commentsCount)}</span>
             </button>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="engagement-button" disabled={reposting}>
+                  <Repeat2 className={`h-5 w-5 ${isReposted ? 'text-green-500' : ''}`} />
+                  <span className="text-sm font-medium">{formatNumber(repostsCount)}</span>
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-40">
+                <DropdownMenuItem onClick={handleToggleRepost} disabled={reposting}>
+                  <Repeat2 className="h-4 w-4 mr-2" />
+                  {isReposted ? 'Undo Repost' : 'Repost'}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowQuoteSheet(true)}>
+                  <Quote className="h-4 w-4 mr-2" />
+                  Quote
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             
-            <button className="engagement-button">
+            <button
+              className="engagement-button"
+              onClick={() => setShowShareSheet(true)}
+            >
               <Share className="h-5 w-5" />
-              <span className="text-sm font-medium">{formatNumber(post.engagement.shares)}</span>
+              <span className="text-sm font-medium">{formatNumber(sharesCount)}</span>
             </button>
           </div>
           
           <button
-            onClick={() => setIsSaved(!isSaved)}
+            onClick={handleToggleSave}
+            disabled={saving}
             className="engagement-button"
           >
             <Bookmark className={`h-5 w-5 ${isSaved ? 'fill-foreground' : ''}`} />
           </button>
         </div>
         
+        {reactionTotal > 0 && (
+          <button
+            onClick={() => setShowReactionPicker(true)}
+            className="flex items-center gap-1 mb-2 text-sm text-muted-foreground"
+          >
+            <span className="tracking-tighter">{topReactions.join('')}</span>
+            <span>{formatNumber(reactionTotal)}</span>
+          </button>
+        )}
+
         {/* Caption */}
         <p className="text-sm">
           <span className="font-semibold mr-2">@{post.author.username}</span>
-          {post.content.caption}
+          <RichText text={caption} />
         </p>
+
+        {post.quotedPost && <QuotedPostEmbed post={post.quotedPost} className="mt-3" />}
+
+        {post.linkPreview && <LinkPreviewCard preview={post.linkPreview} className="mt-3" />}
+
+        {post.offer && (
+          <OfferCard
+            offer={post.offer}
+            brandName={post.author.displayName}
+            isOwner={currentUserId === post.authorId}
+            className="mt-3"
+          />
+        )}
         
-        <span className="text-xs text-muted-foreground mt-1 block">{post.timestamp}</span>
+        <span className="text-xs text-muted-foreground mt-1 block">
+          {post.timestamp}
+          {editedAt && (
+            <>
+              {" · "}
+              <button onClick={() => setShowHistory(true)} className="hover:underline">
+                edited
+              </button>
+            </>
+          )}
+        </span>
 
         {/* Comments Section */}
         {showComments && (
-          <div className="mt-4 border-t border-border pt-4">
-            {/* Add Comment */}
-            <div className="flex gap-2 mb-4">
-              <Input
-                placeholder="Add a comment..."
-                value={newComment}
-                onChange={(e) => setNewComment(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && !e.shiftKey) {
-                    e.preventDefault();
-                    handleAddComment();
-                  }
-                }}
-                disabled={submittingComment}
-                className="flex-1"
-              />
-              <Button
-                size="icon"
-                onClick={handleAddComment}
-                disabled={!newComment.trim() || submittingComment}
-              >
-                <Send className="h-4 w-4" />
-              </Button>
-            </div>
-
-            {/* Comments List */}
-            <div className="space-y-3 max-h-[300px] overflow-y-auto">
-              {comments.length === 0 ? (
-                <p className="text-sm text-muted-foreground text-center py-4">
-                  No comments yet. Be the first to comment!
-                </p>
-              ) : (
-                comments.map((comment) => (
-                  <div key={comment.id} className="flex gap-3">
-                    <ProfileLink userId={comment.user_id}>
-                      <img
-                        src={comment.profiles.avatar_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${comment.user_id}`}
-                        alt={comment.profiles.handle}
-                        className="w-8 h-8 rounded-full object-cover"
-                        width={32}
-                        height={32}
-                        loading="lazy"
-                      />
-                    </ProfileLink>
-                    <div className="flex-1">
-                      <div className="flex items-start justify-between">
-                        <ProfileLink userId={comment.user_id}>
-                          <div className="flex items-center gap-1">
-                            <span className="font-semibold text-sm">
-                              {comment.profiles.display_name}
-                            </span>
-                            {comment.profiles.verified && <VerifiedBadge size="sm" />}
-                            <span className="text-xs text-muted-foreground ml-1">
-                              @{comment.profiles.handle}
-                            </span>
-                          </div>
-                        </ProfileLink>
-                        {currentUserId === comment.user_id && (
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-6 w-6"
-                            onClick={() => handleDeleteComment(comment.id)}
-                          >
-                            <Trash2 className="h-3 w-3" />
-                          </Button>
-                        )}
-                      </div>
-                      <p className="text-sm mt-1">{comment.content}</p>
-                      <div className="flex items-center gap-3 mt-1">
-                        <span className="text-xs text-muted-foreground">
-                          {new Date(comment.created_at).toLocaleDateString()}
-                        </span>
-                        <button
-                          onClick={() => toggleCommentLike(comment.id)}
-                          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
-                        >
-                          <Heart 
-                            className={`h-3 w-3 ${comment.liked ? 'fill-red-500 text-red-500' : ''}`}
-                          />
-                          <span>{comment.likes_count || 0}</span>
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                ))
-              )}
-            </div>
-          </div>
+          <CommentThread
+            target={{ type: post.isSpark ? 'spark' : 'post', id: post.id }}
+            highlightCommentId={highlightCommentId}
+            className="mt-4 border-t border-border pt-4"
+          />
         )}
       </div>
 
+      <CollectionPickerDialog
+        open={showCollectionPicker}
+        onOpenChange={setShowCollectionPicker}
+        postId={post.id}
+        onSaved={() => {
+          setIsSaved(true);
+          onSaveChange?.(post.id, true);
+        }}
+      />
+
+      <ShareSheet
+        open={showShareSheet}
+        onOpenChange={setShowShareSheet}
+        postId={post.id}
+        kind={post.isSpark ? "spark" : "post"}
+        caption={caption}
+        authorHandle={post.author.username}
+        onShared={() => setSharesCount((count) => count + 1)}
+      />
+
+      <QuoteSheet
+        open={showQuoteSheet}
+        onOpenChange={setShowQuoteSheet}
+        post={post}
+      />
+
+      <EditPostSheet
+        open={showEditSheet}
+        onOpenChange={setShowEditSheet}
+        postId={post.id}
+        caption={caption}
+        media={media}
+        onSaved={(changes) => {
+          setCaption(changes.caption);
+          setMedia(changes.media);
+          setEditedAt(changes.editedAt || undefined);
+        }}
+      />
+
+      <PostHistorySheet
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        postId={post.id}
+        caption={caption}
+        editedAt={editedAt}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
@@ -0,0 +1,36 @@
+import { SafeImage } from "@/components/ui/safe-image";
+import { cn } from "@/lib/utils";
+import type { LinkPreview } from "@/lib/link-preview";
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+  className?: string;
+}
+
+export const LinkPreviewCard = ({ preview, className }: LinkPreviewCardProps) => {
+  const hostname = new URL(preview.url).hostname.replace(/^www\./, "");
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={cn("block overflow-hidden rounded-xl border border-border hover:bg-muted/50 transition-colors", className)}
+    >
+      {preview.imageUrl && (
+        <SafeImage
+          src={preview.imageUrl}
+          alt={preview.title || hostname}
+          className="w-full aspect-[1.91/1] object-cover"
+        />
+      )}
+      <div className="p-3 space-y-0.5">
+        <p className="text-xs text-muted-foreground uppercase tracking-wide">{preview.siteName || hostname}</p>
+        {preview.title && <p className="text-sm font-semibold line-clamp-2">{preview.title}</p>}
+        {preview.description && (
+          <p className="text-xs text-muted-foreground line-clamp-2">{preview.description}</p>
+        )}
+      </div>
+    </a>
+  );
+};
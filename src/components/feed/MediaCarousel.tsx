@@ -0,0 +1,94 @@
+import { useState, useEffect } from "react";
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from "@/components/ui/carousel";
+import { SafeImage } from "@/components/ui/safe-image";
+import { cn } from "@/lib/utils";
+import type { PostMedia } from "@/lib/feed";
+
+// Keep very tall or very wide media from taking over the feed
+const MIN_ASPECT_RATIO = 4 / 5;
+const MAX_ASPECT_RATIO = 1.91;
+
+// Every slide shares the first item's shape so the card doesn't jump between
+// slides; media without recorded dimensions stays square
+const getAspectRatio = ({ width, height }: PostMedia) => {
+  if (!width || !height) return 1;
+  return Math.min(Math.max(width / height, MIN_ASPECT_RATIO), MAX_ASPECT_RATIO);
+};
+
+interface MediaCarouselProps {
+  media: PostMedia[];
+  className?: string;
+}
+
+export const MediaCarousel = ({ media, className }: MediaCarouselProps) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const aspectRatio = media.length > 0 ? getAspectRatio(media[0]) : 1;
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setSelectedIndex(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  return (
+    <div className={cn("relative", className)}>
+      <Carousel setApi={setApi} opts={{ loop: false }}>
+        <CarouselContent className="ml-0">
+          {media.map((item, index) => (
+            <CarouselItem key={item.id} className="pl-0 overflow-hidden" style={{ aspectRatio }}>
+              {item.type === "video" ? (
+                <video
+                  src={item.url}
+                  poster={item.posterUrl}
+                  className="w-full h-full object-cover"
+                  preload={index === selectedIndex ? "metadata" : "none"}
+                  controls={index === selectedIndex}
+                  playsInline
+                  aria-label={item.alt}
+                />
+              ) : (
+                // SafeImage only starts loading once its slide scrolls into view
+                <SafeImage
+                  src={item.url}
+                  alt={item.alt || `Image ${index + 1} of ${media.length}`}
+                  className="w-full h-full object-cover"
+                  width={item.width}
+                  height={item.height}
+                  loading="lazy"
+                />
+              )}
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+      </Carousel>
+
+      {media.length > 1 && (
+        <>
+          <div className="absolute top-3 right-3 px-2 py-0.5 rounded-full bg-black/60 text-white text-xs font-medium">
+            {selectedIndex + 1}/{media.length}
+          </div>
+          <div className="flex justify-center gap-1.5 py-2">
+            {media.map((item, index) => (
+              <button
+                key={item.id}
+                onClick={() => api?.scrollTo(index)}
+                aria-label={`Go to slide ${index + 1}`}
+                className={cn(
+                  "h-1.5 rounded-full transition-all",
+                  index === selectedIndex ? "w-4 bg-primary" : "w-1.5 bg-muted-foreground/40"
+                )}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import { useState, useEffect } from "react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { supabase } from "@/integrations/supabase/client";
+import { getTimeAgo } from "@/lib/feed";
+
+interface PostHistorySheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  postId: string;
+  caption: string;
+  editedAt?: string;
+}
+
+interface Revision {
+  id: string;
+  caption: string | null;
+  created_at: string;
+}
+
+export const PostHistorySheet = ({ open, onOpenChange, postId, caption, editedAt }: PostHistorySheetProps) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadRevisions();
+    }
+  }, [open, postId]);
+
+  const loadRevisions = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("post_revisions")
+      .select("id, caption, created_at")
+      .eq("post_id", postId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error loading post history:", error);
+    }
+    setRevisions(data || []);
+    setLoading(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[80vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Edit History</SheetTitle>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          <div className="border-b border-border pb-4">
+            <span className="text-xs font-medium text-primary">
+              Current{editedAt && ` · edited ${getTimeAgo(new Date(editedAt))}`}
+            </span>
+            <p className="text-sm mt-1 whitespace-pre-wrap">{caption || <em className="text-muted-foreground">No caption</em>}</p>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-6 h-6 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+            </div>
+          ) : (
+            revisions.map((revision, index) => (
+              <div key={revision.id} className="border-b border-border pb-4 last:border-0">
+                {/* A revision is the version that was replaced at created_at */}
+                <span className="text-xs text-muted-foreground">
+                  {index === revisions.length - 1 ? "Original" : "Earlier version"} · replaced {getTimeAgo(new Date(revision.created_at))}
+                </span>
+                <p className="text-sm mt-1 whitespace-pre-wrap text-muted-foreground">
+                  {revision.caption || <em>No caption</em>}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -1,18 +1,33 @@
 import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { escapeLikePattern } from "@/lib/mentions";
 
 interface ProfileLinkProps {
   userId?: string;
+  // Resolved to a user id on click, for @mentions where only the handle is known
+  handle?: string;
   children: React.ReactNode;
   className?: string;
 }
 
-export const ProfileLink = ({ userId, children, className }: ProfileLinkProps) => {
+export const ProfileLink = ({ userId, handle, children, className }: ProfileLinkProps) => {
   const navigate = useNavigate();
 
-  const handleClick = (e: React.MouseEvent) => {
+  const handleClick = async (e: React.MouseEvent) => {
     e.stopPropagation();
     if (userId) {
       navigate(`/profile/${userId}`);
+    } else if (handle) {
+      const { data } = await supabase
+        .from("profiles")
+        .select("user_id")
+        .ilike("handle", escapeLikePattern(handle))
+        .limit(1)
+        .maybeSingle();
+
+      if (data) {
+        navigate(`/profile/${data.user_id}`);
+      }
     } else {
       navigate('/profile');
     }
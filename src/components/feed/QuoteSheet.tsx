@@ -0,0 +1,100 @@
+import { useState, useEffect } from "react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { MentionInput } from "@/components/mentions/MentionInput";
+import { createPost, toQuotedPostPreview, type FeedPost } from "@/lib/feed";
+import { QuotedPostEmbed } from "./QuotedPostEmbed";
+
+interface QuoteSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  post: FeedPost;
+}
+
+// Publishes a text post that embeds the given post
+export const QuoteSheet = ({ open, onOpenChange, post }: QuoteSheetProps) => {
+  const [caption, setCaption] = useState("");
+  const [publishing, setPublishing] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setCaption("");
+    }
+  }, [open]);
+
+  const handlePublish = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast({
+        title: "Not authenticated",
+        description: "Please log in to quote posts",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPublishing(true);
+    try {
+      await createPost({
+        caption: caption.trim(),
+        contentType: "text",
+        quotedPostId: post.id,
+      });
+
+      onOpenChange(false);
+      toast({
+        title: "Quote posted",
+        description: `Your quote of @${post.author.username} is live`,
+      });
+    } catch (error) {
+      console.error("Error posting quote:", error);
+      toast({
+        title: "Failed to post quote",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[90vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Quote Post</SheetTitle>
+        </SheetHeader>
+
+        <div className="flex flex-col gap-4 mt-6">
+          <div>
+            <MentionInput
+              multiline
+              placeholder="Add your take..."
+              value={caption}
+              onChange={setCaption}
+              className="min-h-[100px] rounded-2xl border-border resize-none"
+              maxLength={2200}
+              disabled={publishing}
+            />
+            <div className="text-right text-xs text-muted-foreground mt-1">
+              {caption.length}/2200
+            </div>
+          </div>
+
+          <QuotedPostEmbed post={toQuotedPostPreview(post)} interactive={false} />
+
+          <Button
+            onClick={handlePublish}
+            disabled={!caption.trim() || publishing}
+            className="w-full rounded-full"
+          >
+            {publishing ? <Loader2 className="h-4 w-4 animate-spin" /> : "Post"}
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,72 @@
+import { useNavigate } from "react-router-dom";
+import { Play } from "lucide-react";
+import { VerifiedBadge } from "@/components/ui/verified-badge";
+import { SafeImage } from "@/components/ui/safe-image";
+import { getPostPath, type QuotedPost } from "@/lib/feed";
+import { cn } from "@/lib/utils";
+import { RichText } from "./RichText";
+
+interface QuotedPostEmbedProps {
+  post: QuotedPost;
+  // Previews in the quote sheet shouldn't navigate away
+  interactive?: boolean;
+  className?: string;
+}
+
+// Compact card for the post a quote embeds
+export const QuotedPostEmbed = ({ post, interactive = true, className }: QuotedPostEmbedProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <div
+      role={interactive ? "link" : undefined}
+      onClick={interactive ? () => navigate(getPostPath(post.id, post.isSpark)) : undefined}
+      className={cn(
+        "flex gap-3 overflow-hidden rounded-xl border border-border p-3",
+        interactive && "cursor-pointer hover:bg-muted/50 transition-colors",
+        className
+      )}
+    >
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center gap-1 text-sm">
+          <img
+            src={post.author.avatar}
+            alt={post.author.username}
+            className="w-5 h-5 rounded-full object-cover"
+            width={20}
+            height={20}
+            loading="lazy"
+          />
+          <span className="font-semibold truncate">{post.author.displayName}</span>
+          {post.author.verified && <VerifiedBadge size="sm" />}
+          <span className="text-xs text-muted-foreground truncate">
+            @{post.author.username} · {post.timestamp}
+          </span>
+        </div>
+        {post.caption && (
+          <p className="text-sm line-clamp-3 break-words">
+            <RichText text={post.caption} />
+          </p>
+        )}
+      </div>
+      {post.cover && (
+        <div className="relative w-16 h-16 shrink-0 overflow-hidden rounded-lg">
+          {post.cover.type === "video" ? (
+            <>
+              <video
+                src={post.cover.url}
+                poster={post.cover.posterUrl}
+                className="w-full h-full object-cover"
+                preload={post.cover.posterUrl ? "none" : "metadata"}
+                muted
+              />
+              <Play className="absolute inset-0 m-auto h-5 w-5 text-white fill-white" />
+            </>
+          ) : (
+            <SafeImage src={post.cover.url} alt="" className="w-full h-full object-cover" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
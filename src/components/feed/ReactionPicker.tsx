@@ -0,0 +1,38 @@
+import * as PopoverPrimitive from "@radix-ui/react-popover";
+import { Popover, PopoverContent } from "@/components/ui/popover";
+import { REACTION_EMOJIS, type ReactionEmoji } from "@/lib/reactions";
+import { cn } from "@/lib/utils";
+
+interface ReactionPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Reactions the viewer has already left on the post
+  selected: ReactionEmoji[];
+  onSelect: (emoji: ReactionEmoji) => void;
+  // Element the picker is anchored to; it keeps its own click handling
+  children: React.ReactNode;
+}
+
+export const ReactionPicker = ({ open, onOpenChange, selected, onSelect, children }: ReactionPickerProps) => (
+  <Popover open={open} onOpenChange={onOpenChange}>
+    <PopoverPrimitive.Anchor asChild>{children}</PopoverPrimitive.Anchor>
+    <PopoverContent side="top" align="start" className="w-auto p-1 rounded-full">
+      <div className="flex items-center gap-1">
+        {REACTION_EMOJIS.map((emoji) => (
+          <button
+            key={emoji}
+            onClick={() => onSelect(emoji)}
+            aria-label={`React ${emoji}`}
+            aria-pressed={selected.includes(emoji)}
+            className={cn(
+              "h-10 w-10 rounded-full text-2xl leading-none transition-transform hover:scale-125",
+              selected.includes(emoji) && "bg-primary/15"
+            )}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+    </PopoverContent>
+  </Popover>
+);
@@ -0,0 +1,49 @@
+import { Link } from "react-router-dom";
+import { getTagPath } from "@/lib/hashtags";
+import { parseRichText } from "@/lib/rich-text";
+import { ProfileLink } from "./ProfileLink";
+
+interface RichTextProps {
+  text: string;
+  // Link colour, e.g. for captions drawn over media
+  linkClassName?: string;
+}
+
+// Caption or comment text with #tags, @mentions and URLs linked
+export const RichText = ({ text, linkClassName = "text-primary" }: RichTextProps) => (
+  <>
+    {parseRichText(text).map((part, index) =>
+      part.type === "hashtag" ? (
+        <Link
+          key={index}
+          to={getTagPath(part.tag)}
+          onClick={(e) => e.stopPropagation()}
+          className={`${linkClassName} font-medium hover:underline`}
+        >
+          {part.value}
+        </Link>
+      ) : part.type === "mention" ? (
+        <ProfileLink
+          key={index}
+          handle={part.handle}
+          className={`${linkClassName} font-medium hover:underline`}
+        >
+          {part.value}
+        </ProfileLink>
+      ) : part.type === "link" ? (
+        <a
+          key={index}
+          href={part.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          className={`${linkClassName} break-all hover:underline`}
+        >
+          {part.value}
+        </a>
+      ) : (
+        <span key={index}>{part.value}</span>
+      )
+    )}
+  </>
+);
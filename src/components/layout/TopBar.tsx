@@ -19,8 +19,17 @@ const getPageTitle = (pathname: string) => {
       return "Messages";
     case "/notifications":
       return "Notifications";
+    case "/saved":
+      return "Saved";
+    case "/scheduled":
+      return "Scheduled";
+    case "/drafts":
+      return "Drafts";
     default:
       if (pathname.startsWith("/profile/")) return "Profile";
+      if (pathname.startsWith("/post/")) return "Post";
+      if (pathname.startsWith("/sparks/")) return "Spark";
+      if (pathname.startsWith("/tag/")) return `#${decodeURIComponent(pathname.slice(5))}`;
       return "CHILL-Z";
   }
 };
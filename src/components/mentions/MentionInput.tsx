@@ -0,0 +1,201 @@
+import { useState, useEffect, useRef } from "react";
+import * as PopoverPrimitive from "@radix-ui/react-popover";
+import { Popover, PopoverContent } from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { VerifiedBadge } from "@/components/ui/verified-badge";
+import { supabase } from "@/integrations/supabase/client";
+import { escapeLikePattern, getMentionQuery } from "@/lib/mentions";
+import { cn } from "@/lib/utils";
+
+interface MentionSuggestion {
+  user_id: string;
+  handle: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  verified: boolean | null;
+}
+
+type FieldElement = HTMLInputElement | HTMLTextAreaElement;
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  multiline?: boolean;
+  placeholder?: string;
+  className?: string;
+  disabled?: boolean;
+  maxLength?: number;
+  rows?: number;
+  onKeyDown?: (e: React.KeyboardEvent<FieldElement>) => void;
+}
+
+// Input or Textarea that suggests @handles from profiles while typing
+export const MentionInput = ({
+  value,
+  onChange,
+  multiline = false,
+  placeholder,
+  className,
+  disabled,
+  maxLength,
+  rows,
+  onKeyDown,
+}: MentionInputProps) => {
+  const fieldRef = useRef<FieldElement>(null);
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const open = !!mention && suggestions.length > 0;
+
+  useEffect(() => {
+    if (!mention) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      let query = supabase
+        .from("profiles")
+        .select("user_id, handle, display_name, avatar_url, verified")
+        .not("handle", "is", null)
+        .limit(6);
+
+      if (mention.query) {
+        query = query.ilike("handle", `${escapeLikePattern(mention.query)}%`);
+      }
+
+      const { data } = await query;
+      if (cancelled) return;
+
+      setSuggestions((data || []) as MentionSuggestion[]);
+      setActiveIndex(0);
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [mention?.query, mention?.start]);
+
+  const updateMention = (text: string, caret: number | null) => {
+    setMention(caret === null ? null : getMentionQuery(text, caret));
+  };
+
+  const handleChange = (e: React.ChangeEvent<FieldElement>) => {
+    onChange(e.target.value);
+    updateMention(e.target.value, e.target.selectionStart);
+  };
+
+  const selectSuggestion = (suggestion: MentionSuggestion) => {
+    if (!mention) return;
+
+    const caret = fieldRef.current?.selectionStart ?? value.length;
+    const inserted = `@${suggestion.handle} `;
+    const next = value.slice(0, mention.start) + inserted + value.slice(caret);
+    onChange(maxLength ? next.slice(0, maxLength) : next);
+    setMention(null);
+
+    // Put the caret after the inserted handle once React has re-rendered
+    const position = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      fieldRef.current?.focus();
+      fieldRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<FieldElement>) => {
+    if (open) {
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        setActiveIndex((index) => (index + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault();
+        setActiveIndex((index) => (index - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        selectSuggestion(suggestions[activeIndex]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+
+    onKeyDown?.(e);
+  };
+
+  const fieldProps = {
+    value,
+    placeholder,
+    disabled,
+    maxLength,
+    onChange: handleChange,
+    onKeyDown: handleKeyDown,
+    onClick: (e: React.MouseEvent<FieldElement>) =>
+      updateMention(e.currentTarget.value, e.currentTarget.selectionStart),
+    onBlur: () => setMention(null),
+  };
+
+  return (
+    <Popover open={open}>
+      <PopoverPrimitive.Anchor asChild>
+        {multiline ? (
+          <Textarea
+            ref={fieldRef as React.Ref<HTMLTextAreaElement>}
+            className={className}
+            rows={rows}
+            {...fieldProps}
+          />
+        ) : (
+          <Input
+            ref={fieldRef as React.Ref<HTMLInputElement>}
+            className={className}
+            {...fieldProps}
+          />
+        )}
+      </PopoverPrimitive.Anchor>
+      <PopoverContent
+        align="start"
+        side="top"
+        className="w-64 p-1"
+        // Keep focus in the field so typing continues uninterrupted
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        {suggestions.map((suggestion, index) => (
+          <button
+            key={suggestion.user_id}
+            // mousedown would blur the field and close the list before click
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => selectSuggestion(suggestion)}
+            className={cn(
+              "w-full flex items-center gap-2 px-2 py-1.5 rounded-sm text-left text-sm",
+              index === activeIndex ? "bg-accent" : "hover:bg-accent"
+            )}
+          >
+            <Avatar className="h-7 w-7">
+              <AvatarImage src={suggestion.avatar_url || undefined} />
+              <AvatarFallback>{suggestion.display_name?.[0] || suggestion.handle[0]}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-1">
+                <span className="font-medium truncate">{suggestion.display_name || suggestion.handle}</span>
+                {suggestion.verified && <VerifiedBadge size="sm" />}
+              </div>
+              <span className="text-xs text-muted-foreground">@{suggestion.handle}</span>
+            </div>
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+};
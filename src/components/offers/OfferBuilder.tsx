@@ -0,0 +1,76 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { OfferDraft } from "@/lib/offers";
+
+interface OfferBuilderProps {
+  value: OfferDraft;
+  onChange: (value: OfferDraft) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+// Offer fields for brand accounts; the code stays hidden until someone claims it
+export const OfferBuilder = ({ value, onChange, onRemove, disabled }: OfferBuilderProps) => {
+  const setField = (field: keyof OfferDraft) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    onChange({ ...value, [field]: e.target.value });
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-border p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Sponsored Offer</h3>
+        <Button variant="ghost" size="sm" onClick={onRemove} disabled={disabled}>
+          Remove offer
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="offer-title">Title</Label>
+        <Input
+          id="offer-title"
+          placeholder="3 months free Premium"
+          value={value.title}
+          onChange={setField("title")}
+          maxLength={80}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="offer-code">Code</Label>
+          <Input
+            id="offer-code"
+            placeholder="CHILL30"
+            value={value.code}
+            onChange={setField("code")}
+            maxLength={40}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="offer-expires">Ends on</Label>
+          <Input
+            id="offer-expires"
+            type="date"
+            value={value.expiresOn}
+            onChange={setField("expiresOn")}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="offer-url">Landing page</Label>
+        <Input
+          id="offer-url"
+          type="url"
+          placeholder="https://"
+          value={value.landingUrl}
+          onChange={setField("landingUrl")}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Copy, ExternalLink, Gift, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { claimOffer, isOfferExpired, type PostOffer } from "@/lib/offers";
+
+interface OfferCardProps {
+  offer: PostOffer;
+  brandName: string;
+  // Brands see how many times their offer was claimed instead of a claim button
+  isOwner?: boolean;
+  className?: string;
+}
+
+export const OfferCard = ({ offer, brandName, isOwner, className }: OfferCardProps) => {
+  const { toast } = useToast();
+  const [claimed, setClaimed] = useState(offer.claimed);
+  const [claiming, setClaiming] = useState(false);
+  const [code, setCode] = useState<string | null>(null);
+  const expired = isOfferExpired(offer);
+
+  const handleClaim = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast({
+        title: "Not authenticated",
+        description: "Please log in to claim offers",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setClaiming(true);
+    try {
+      setCode(await claimOffer(offer.id));
+      setClaimed(true);
+    } catch (error) {
+      console.error("Error claiming offer:", error);
+      toast({
+        title: "Error",
+        description: "Failed to claim offer",
+        variant: "destructive",
+      });
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!code) return;
+    try {
+      await navigator.clipboard.writeText(code);
+      toast({
+        title: "Code copied",
+        description: "Paste it at checkout",
+      });
+    } catch (error) {
+      console.error("Error copying code:", error);
+    }
+  };
+
+  return (
+    <>
+      <div className={cn("flex items-center gap-3 rounded-xl border border-border bg-muted/40 p-3", className)}>
+        <Gift className="h-5 w-5 shrink-0 text-primary" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold truncate">{offer.title}</p>
+          <p className="text-xs text-muted-foreground">
+            {expired ? "Offer ended" : `Ends ${format(new Date(offer.expiresAt), "MMM d")}`}
+            {isOwner && ` · ${offer.claimsCount} ${offer.claimsCount === 1 ? "claim" : "claims"}`}
+          </p>
+        </div>
+        {!isOwner && (
+          <Button
+            size="sm"
+            className="rounded-full"
+            onClick={handleClaim}
+            disabled={claiming || (expired && !claimed)}
+          >
+            {claiming ? <Loader2 className="h-4 w-4 animate-spin" /> : claimed ? "View Code" : "Claim Offer"}
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={!!code} onOpenChange={(open) => !open && setCode(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{offer.title}</DialogTitle>
+            <DialogDescription>Your code from {brandName}</DialogDescription>
+          </DialogHeader>
+          <button
+            onClick={handleCopy}
+            className="flex items-center justify-center gap-2 rounded-xl border-2 border-dashed border-primary py-4 font-mono text-lg font-bold tracking-widest"
+          >
+            {code}
+            <Copy className="h-4 w-4 text-muted-foreground" />
+          </button>
+          <Button asChild className="w-full rounded-full">
+            <a href={offer.landingUrl} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Go to {brandName}
+            </a>
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
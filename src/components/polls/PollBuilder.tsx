@@ -0,0 +1,94 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  POLL_DURATIONS,
+  POLL_MAX_OPTIONS,
+  POLL_MIN_OPTIONS,
+  POLL_OPTION_MAX_LENGTH,
+  type PollDraft,
+} from "@/lib/polls";
+
+interface PollBuilderProps {
+  value: PollDraft;
+  onChange: (value: PollDraft) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+// Options and duration for a poll; the caption is the question
+export const PollBuilder = ({ value, onChange, onRemove, disabled }: PollBuilderProps) => {
+  const setOption = (index: number, label: string) => {
+    onChange({ ...value, options: value.options.map((option, i) => (i === index ? label : option)) });
+  };
+
+  const removeOption = (index: number) => {
+    onChange({ ...value, options: value.options.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-border p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Poll</h3>
+        <Button variant="ghost" size="sm" onClick={onRemove} disabled={disabled}>
+          Remove poll
+        </Button>
+      </div>
+
+      {value.options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            placeholder={`Option ${index + 1}`}
+            value={option}
+            onChange={(e) => setOption(index, e.target.value)}
+            maxLength={POLL_OPTION_MAX_LENGTH}
+            disabled={disabled}
+          />
+          {value.options.length > POLL_MIN_OPTIONS && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => removeOption(index)}
+              disabled={disabled}
+              aria-label="Remove option"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {value.options.length < POLL_MAX_OPTIONS && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, options: [...value.options, ""] })}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add option
+        </Button>
+      )}
+
+      <div>
+        <p className="text-xs text-muted-foreground mb-2">Poll length</p>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={String(value.hours)}
+          onValueChange={(hours) => hours && onChange({ ...value, hours: Number(hours) })}
+          className="justify-start"
+          disabled={disabled}
+        >
+          {POLL_DURATIONS.map((duration) => (
+            <ToggleGroupItem key={duration.hours} value={String(duration.hours)}>
+              {duration.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import { Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  getPollPercentage,
+  getPollTimeLeft,
+  getPollTotal,
+  isPollClosed,
+  type PollOption,
+  type PostPoll,
+} from "@/lib/polls";
+
+interface PollCardProps {
+  poll: PostPoll;
+  voting?: boolean;
+  onVote: (option: PollOption) => void;
+  className?: string;
+}
+
+// Voting buttons until the viewer votes or the poll closes, then live results
+export const PollCard = ({ poll, voting, onVote, className }: PollCardProps) => {
+  const closed = isPollClosed(poll);
+  const showResults = closed || !!poll.viewerOptionId;
+  const total = getPollTotal(poll);
+  const leadingVotes = Math.max(...poll.options.map((option) => option.votes));
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {poll.options.map((option) => {
+        const percentage = getPollPercentage(option.votes, total);
+        const chosen = option.id === poll.viewerOptionId;
+
+        if (!showResults) {
+          return (
+            <button
+              key={option.id}
+              onClick={() => onVote(option)}
+              disabled={voting}
+              className="w-full rounded-full border-2 border-primary px-4 py-2 text-sm font-semibold text-primary transition-colors hover:bg-primary/10 disabled:opacity-50"
+            >
+              {option.label}
+            </button>
+          );
+        }
+
+        return (
+          <div key={option.id} className="relative overflow-hidden rounded-lg bg-muted">
+            <div
+              className={cn(
+                "absolute inset-y-0 left-0 transition-all duration-500",
+                closed && option.votes === leadingVotes && total > 0 ? "bg-primary/40" : "bg-primary/20"
+              )}
+              style={{ width: `${percentage}%` }}
+            />
+            <div className="relative flex items-center justify-between px-3 py-2 text-sm">
+              <span className="flex items-center gap-1 font-medium">
+                {option.label}
+                {chosen && <Check className="h-4 w-4 text-primary" />}
+              </span>
+              <span className="font-semibold">{percentage}%</span>
+            </div>
+          </div>
+        );
+      })}
+
+      <p className="text-xs text-muted-foreground">
+        {total} {total === 1 ? "vote" : "votes"} · {closed ? "Final results" : getPollTimeLeft(poll)}
+      </p>
+    </div>
+  );
+};
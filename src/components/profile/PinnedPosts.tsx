@@ -0,0 +1,116 @@
+import { useState, useEffect } from "react";
+import { ChevronDown, ChevronUp, Pin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FeedCard } from "@/components/feed/FeedCard";
+import { useToast } from "@/hooks/use-toast";
+import { fetchPinnedPosts, reorderPinnedPosts } from "@/lib/pins";
+import type { FeedPost } from "@/lib/feed";
+
+interface PinnedPostsProps {
+  userId: string;
+  // Owners can reorder their pins
+  isOwnProfile?: boolean;
+  // Lets the profile leave pinned posts out of the list below
+  onLoaded?: (postIds: string[]) => void;
+}
+
+// Pinned posts shown first on a profile, each under a "Pinned" label
+export const PinnedPosts = ({ userId, isOwnProfile, onLoaded }: PinnedPostsProps) => {
+  const { toast } = useToast();
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [reordering, setReordering] = useState(false);
+
+  useEffect(() => {
+    loadPinnedPosts();
+  }, [userId]);
+
+  const updatePosts = (next: FeedPost[]) => {
+    setPosts(next);
+    onLoaded?.(next.map((post) => post.id));
+  };
+
+  const loadPinnedPosts = async () => {
+    try {
+      updatePosts(await fetchPinnedPosts(userId));
+    } catch (error) {
+      console.error("Error loading pinned posts:", error);
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= posts.length || reordering) return;
+
+    const previous = posts;
+    const next = [...posts];
+    [next[index], next[target]] = [next[target], next[index]];
+    updatePosts(next);
+
+    setReordering(true);
+    try {
+      await reorderPinnedPosts(next.map((post) => post.id));
+    } catch (error) {
+      console.error("Error reordering pinned posts:", error);
+      updatePosts(previous);
+      toast({
+        title: "Error",
+        description: "Failed to reorder pinned posts",
+        variant: "destructive",
+      });
+      // Pins may have changed elsewhere
+      loadPinnedPosts();
+    } finally {
+      setReordering(false);
+    }
+  };
+
+  const removePost = (postId: string) => {
+    updatePosts(posts.filter((post) => post.id !== postId));
+  };
+
+  if (posts.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      {posts.map((post, index) => (
+        <div key={post.id}>
+          <div className="flex items-center justify-between mb-1 px-1">
+            <span className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+              <Pin className="h-3 w-3" />
+              Pinned
+            </span>
+            {isOwnProfile && posts.length > 1 && (
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={reordering || index === 0}
+                  aria-label="Move up"
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={reordering || index === posts.length - 1}
+                  aria-label="Move down"
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+          <FeedCard
+            post={post}
+            onPostDeleted={removePost}
+            onPinChange={(postId, pinned) => !pinned && removePost(postId)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import { useState, useEffect } from "react";
+import { Folder, FolderPlus, Check, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface SavedCollection {
+  id: string;
+  name: string;
+}
+
+interface CollectionPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  postId: string;
+  onSaved?: (collectionId: string | null) => void;
+}
+
+export const CollectionPickerDialog = ({ open, onOpenChange, postId, onSaved }: CollectionPickerDialogProps) => {
+  const { toast } = useToast();
+  const [collections, setCollections] = useState<SavedCollection[]>([]);
+  const [currentCollectionId, setCurrentCollectionId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadCollections();
+    }
+  }, [open, postId]);
+
+  const loadCollections = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const [{ data: collectionsData }, { data: savedData }] = await Promise.all([
+      supabase
+        .from("saved_collections")
+        .select("id, name")
+        .eq("user_id", user.id)
+        .order("name"),
+      supabase
+        .from("saved_posts")
+        .select("collection_id")
+        .eq("user_id", user.id)
+        .eq("post_id", postId)
+        .maybeSingle(),
+    ]);
+
+    setCollections(collectionsData || []);
+    setCurrentCollectionId(savedData?.collection_id || null);
+  };
+
+  const saveTo = async (collectionId: string | null, collectionName?: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("saved_posts")
+        .upsert(
+          { user_id: user.id, post_id: postId, collection_id: collectionId },
+          { onConflict: "user_id,post_id" }
+        );
+
+      if (error) throw error;
+
+      onSaved?.(collectionId);
+      onOpenChange(false);
+      toast({
+        title: "Saved",
+        description: collectionId
+          ? `Added to ${collectionName || collections.find((c) => c.id === collectionId)?.name}`
+          : "Added to your saved posts",
+      });
+    } catch (error) {
+      console.error("Error saving to collection:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save post",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("saved_collections")
+        .insert({ user_id: user.id, name })
+        .select("id, name")
+        .single();
+
+      if (error) throw error;
+
+      setCollections((current) => [...current, data].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewName("");
+      await saveTo(data.id, data.name);
+    } catch (error) {
+      console.error("Error creating collection:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create collection",
+        variant: "destructive",
+      });
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Save to collection</DialogTitle>
+          <DialogDescription>Sort your saves into folders</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1 max-h-[300px] overflow-y-auto">
+          <button
+            onClick={() => saveTo(null)}
+            disabled={saving}
+            className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-accent transition-colors text-sm"
+          >
+            <Folder className="h-4 w-4 text-muted-foreground" />
+            <span className="flex-1 text-left">All saves</span>
+            {currentCollectionId === null && <Check className="h-4 w-4 text-primary" />}
+          </button>
+          {collections.map((collection) => (
+            <button
+              key={collection.id}
+              onClick={() => saveTo(collection.id)}
+              disabled={saving}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-accent transition-colors text-sm"
+            >
+              <Folder className="h-4 w-4 text-muted-foreground" />
+              <span className="flex-1 text-left truncate">{collection.name}</span>
+              {currentCollectionId === collection.id && <Check className="h-4 w-4 text-primary" />}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-2 pt-2 border-t border-border">
+          <Input
+            placeholder="New collection"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleCreate();
+              }
+            }}
+            maxLength={50}
+            disabled={saving}
+          />
+          <Button size="icon" onClick={handleCreate} disabled={saving || !newName.trim()}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <FolderPlus className="h-4 w-4" />}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,35 @@
+import { startOfDay } from "date-fns";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { combineDateAndTime, formatPublishAt, toTimeValue } from "@/lib/scheduling";
+
+interface SchedulePickerProps {
+  value: Date;
+  onChange: (value: Date) => void;
+  disabled?: boolean;
+}
+
+// Day and time a scheduled post goes live, in the user's local time
+export const SchedulePicker = ({ value, onChange, disabled }: SchedulePickerProps) => (
+  <div className="space-y-3">
+    <Calendar
+      mode="single"
+      selected={value}
+      onSelect={(day) => day && onChange(combineDateAndTime(day, toTimeValue(value)))}
+      disabled={disabled ? true : { before: startOfDay(new Date()) }}
+      className="rounded-xl border border-border mx-auto w-fit"
+    />
+    <div className="flex items-center gap-3">
+      <Label htmlFor="schedule-time" className="shrink-0">Time</Label>
+      <Input
+        id="schedule-time"
+        type="time"
+        value={toTimeValue(value)}
+        onChange={(e) => e.target.value && onChange(combineDateAndTime(value, e.target.value))}
+        disabled={disabled}
+      />
+    </div>
+    <p className="text-xs text-muted-foreground">Publishes {formatPublishAt(value)}</p>
+  </div>
+);
@@ -4,25 +4,56 @@ import { Input } from "@/components/ui/input";
 import { Copy, Facebook, Twitter, MessageCircle as WhatsApp, Link2, Instagram } from "lucide-react";
 import { toast } from "sonner";
 import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { getPostPath } from "@/lib/feed";
 
 interface ShareSheetProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  sparkId: string;
+  // The post or spark being shared; kind picks /post/:id or /sparks/:id
+  postId: string;
+  kind: "spark" | "post";
   caption: string;
   authorHandle: string;
+  onShared?: () => void;
 }
 
-export const ShareSheet = ({ open, onOpenChange, sparkId, caption, authorHandle }: ShareSheetProps) => {
-  const shareUrl = `${window.location.origin}/sparks/${sparkId}`;
-  const shareText = `Check out this spark by @${authorHandle}: ${caption}`;
+export const ShareSheet = ({
+  open,
+  onOpenChange,
+  postId,
+  kind,
+  caption,
+  authorHandle,
+  onShared,
+}: ShareSheetProps) => {
+  const shareUrl = `${window.location.origin}${getPostPath(postId, kind === "spark")}`;
+  const shareText = `Check out this ${kind} by @${authorHandle}: ${caption}`;
+
+  const recordShare = async (channel: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase
+      .from("post_shares")
+      .insert({ post_id: postId, user_id: user.id, channel });
+
+    if (error) {
+      console.error("Error recording share:", error);
+      return;
+    }
+
+    onShared?.();
+  };
 
   const copyToClipboard = () => {
     navigator.clipboard.writeText(shareUrl);
     toast.success("Link copied to clipboard!");
+    recordShare("link");
   };
 
   const shareToFacebook = () => {
+    recordShare("facebook");
     window.open(
       `https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(shareUrl)}`,
       "_blank",
@@ -31,6 +62,7 @@ export const ShareSheet = ({ open, onOpenChange, sparkId, caption, authorHandle
   };
 
   const shareToTwitter = () => {
+    recordShare("twitter");
     window.open(
       `https://twitter.com/intent/tweet?text=${encodeURIComponent(shareText)}&url=${encodeURIComponent(shareUrl)}`,
       "_blank",
@@ -39,6 +71,7 @@ export const ShareSheet = ({ open, onOpenChange, sparkId, caption, authorHandle
   };
 
   const shareToWhatsApp = () => {
+    recordShare("whatsapp");
     window.open(
       `https://wa.me/?text=${encodeURIComponent(`${shareText} ${shareUrl}`)}`,
       "_blank"
@@ -47,7 +80,8 @@ export const ShareSheet = ({ open, onOpenChange, sparkId, caption, authorHandle
 
   const shareToInstagram = () => {
     // Instagram doesn't support direct web sharing, so we copy the link
-    copyToClipboard();
+    navigator.clipboard.writeText(shareUrl);
+    recordShare("instagram");
     toast.info("Link copied! Open Instagram app to share");
   };
 
@@ -55,7 +89,7 @@ export const ShareSheet = ({ open, onOpenChange, sparkId, caption, authorHandle
     <Sheet open={open} onOpenChange={onOpenChange}>
       <SheetContent side="bottom" className="h-auto pb-8">
         <SheetHeader>
-          <SheetTitle>Share Spark</SheetTitle>
+          <SheetTitle>{kind === "spark" ? "Share Spark" : "Share Post"}</SheetTitle>
         </SheetHeader>
 
         {/* Share Link */}
@@ -17,6 +17,7 @@ interface StoryGroup {
     user_id: string;
     content_url: string;
     content_type: string;
+    poster_url: string | null;
     caption: string | null;
     created_at: string;
     profiles: {
@@ -74,6 +75,7 @@ export const StoriesBar = () => {
         user_id,
         content_url,
         content_type,
+        poster_url,
         caption,
         created_at,
         profiles!stories_user_id_fkey (
@@ -1,24 +1,162 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
+import { MentionInput } from "@/components/mentions/MentionInput";
 import { Camera, Image as ImageIcon, Loader2, Send } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { SaveDraftDialog } from "@/components/drafts/SaveDraftDialog";
+import { useDraft } from "@/hooks/use-draft";
+import { fetchDraft, loadDraftFile, type DraftMediaInput } from "@/lib/drafts";
+import { processImage } from "@/lib/image-pipeline";
+import { extractVideoMetadata } from "@/lib/video-metadata";
 
 interface StoryUploadSheetProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onStoryCreated?: () => void;
+  // Saved story draft to continue when the sheet opens
+  draftId?: string;
 }
 
-export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated }: StoryUploadSheetProps) => {
+type SelectedMedia = DraftMediaInput & {
+  // Videos only
+  duration?: number;
+  poster?: File;
+};
+
+type MediaDetails = Pick<SelectedMedia, "width" | "height" | "duration" | "poster">;
+
+// A video the browser can't read still posts, just without a poster
+const readVideoDetails = async (file: File): Promise<MediaDetails> => {
+  try {
+    const { width, height, duration, poster } = await extractVideoMetadata(file);
+    return { width, height, duration, poster: poster ?? undefined };
+  } catch (error) {
+    console.error("Error reading story video:", error);
+    return {};
+  }
+};
+
+export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated, draftId }: StoryUploadSheetProps) => {
   const [caption, setCaption] = useState("");
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedMedia, setSelectedMedia] = useState<SelectedMedia | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [loadingDraft, setLoadingDraft] = useState(false);
+  const [showLeaveDialog, setShowLeaveDialog] = useState(false);
+  const [leaving, setLeaving] = useState(false);
+  const selectedFile = selectedMedia?.file ?? null;
+  const draft = useDraft(
+    { kind: "story", caption, media: selectedMedia ? [selectedMedia] : [] },
+    { enabled: open && !uploading && !loadingDraft }
+  );
+
+  useEffect(() => {
+    if (open && draftId) {
+      loadDraft(draftId);
+    }
+  }, [open, draftId]);
+
+  const selectFile = (file: File, details: MediaDetails = {}) => {
+    setSelectedMedia({
+      id: crypto.randomUUID(),
+      file,
+      type: file.type.startsWith("video") ? "video" : "image",
+      ...details,
+    });
+    setPreviewUrl(URL.createObjectURL(file));
+  };
+
+  const reset = () => {
+    setCaption("");
+    setSelectedMedia(null);
+    setPreviewUrl(null);
+  };
+
+  const loadDraft = async (id: string) => {
+    setLoadingDraft(true);
+    try {
+      const saved = await fetchDraft(id);
+      if (!saved || saved.kind !== "story") {
+        toast({
+          title: "Draft not found",
+          description: "It may have been published or discarded",
+          variant: "destructive",
+        });
+        return;
+      }
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const [item] = saved.media;
+      const file = item ? await loadDraftFile(item) : null;
+      // Drafts keep only the file; a video's poster is taken again
+      const restored: SelectedMedia | null = item && file
+        ? {
+            id: crypto.randomUUID(),
+            file,
+            type: item.type,
+            width: item.width,
+            height: item.height,
+            ...(item.type === "video" ? await readVideoDetails(file) : {}),
+          }
+        : null;
+
+      setCaption(saved.caption);
+      setSelectedMedia(restored);
+      setPreviewUrl(restored ? URL.createObjectURL(restored.file) : null);
+      draft.resume(saved, { kind: "story", caption: saved.caption, media: restored ? [restored] : [] });
+    } catch (error) {
+      console.error("Error loading story draft:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load draft",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingDraft(false);
+    }
+  };
+
+  // Closing with unpublished work asks whether to keep it
+  const handleOpenChange = (next: boolean) => {
+    if (!next && draft.hasContent && !uploading) {
+      setShowLeaveDialog(true);
+      return;
+    }
+    onOpenChange(next);
+  };
+
+  const handleLeaveChoice = async (keep: boolean) => {
+    setLeaving(true);
+    try {
+      if (keep) {
+        await draft.save();
+        // The sheet starts fresh next time; the draft lives on in the list
+        await draft.detach();
+        toast({
+          title: "Draft saved",
+          description: "Find it in your drafts to finish later",
+        });
+      } else {
+        await draft.discard();
+      }
+      reset();
+      setShowLeaveDialog(false);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error updating story draft:", error);
+      toast({
+        title: "Error",
+        description: keep ? "Failed to save draft" : "Failed to discard draft",
+        variant: "destructive",
+      });
+    } finally {
+      setLeaving(false);
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
@@ -43,9 +181,27 @@ export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated }: StoryUp
       return;
     }
 
-    setSelectedFile(file);
-    const url = URL.createObjectURL(file);
-    setPreviewUrl(url);
+    setProcessing(true);
+    if (file.type.startsWith("video")) {
+      selectFile(file, await readVideoDetails(file));
+      setProcessing(false);
+      return;
+    }
+
+    // Resize and strip metadata before the photo is previewed or saved
+    try {
+      const processed = await processImage(file);
+      selectFile(processed.file, { width: processed.width, height: processed.height });
+    } catch (error) {
+      console.error("Error processing story image:", error);
+      toast({
+        title: "Couldn't add photo",
+        description: "This image could not be processed",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
   };
 
   const handlePublish = async () => {
@@ -77,6 +233,22 @@ export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated }: StoryUp
         .from("sparks")
         .getPublicUrl(fileName);
 
+      // A missing poster only costs the preview; the video still plays
+      let posterUrl: string | null = null;
+      const poster = selectedMedia?.poster;
+      if (poster) {
+        const posterName = `${user.id}/${Date.now()}-poster.${poster.name.split(".").pop()}`;
+        const { error: posterError } = await supabase.storage
+          .from("sparks")
+          .upload(posterName, poster);
+
+        if (posterError) {
+          console.error("Error uploading story poster:", posterError);
+        } else {
+          posterUrl = supabase.storage.from("sparks").getPublicUrl(posterName).data.publicUrl;
+        }
+      }
+
       // Create story record
       const { error: insertError } = await supabase
         .from("stories")
@@ -85,18 +257,26 @@ export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated }: StoryUp
           content_url: publicUrl,
           content_type: selectedFile.type.startsWith("video") ? "video" : "image",
           caption: caption || null,
+          width: selectedMedia?.width ?? null,
+          height: selectedMedia?.height ?? null,
+          poster_url: posterUrl,
+          duration_seconds: selectedMedia?.duration ?? null,
         });
 
       if (insertError) throw insertError;
 
+      try {
+        await draft.discard();
+      } catch (draftError) {
+        console.error("Error removing story draft:", draftError);
+      }
+
       toast({
         title: "Story published! 🎉",
         description: "Your story is now live for 24 hours",
       });
 
-      setCaption("");
-      setSelectedFile(null);
-      setPreviewUrl(null);
+      reset();
       onOpenChange(false);
       onStoryCreated?.();
     } catch (error: any) {
@@ -112,13 +292,20 @@ export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated }: StoryUp
   };
 
   return (
-    <Sheet open={open} onOpenChange={onOpenChange}>
+    <Sheet open={open} onOpenChange={handleOpenChange}>
       <SheetContent side="bottom" className="h-[90vh]">
         <SheetHeader>
           <SheetTitle>Create Story</SheetTitle>
         </SheetHeader>
 
         <div className="flex flex-col gap-4 mt-6">
+          {loadingDraft && (
+            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading draft...
+            </div>
+          )}
+
           {/* Preview Area */}
           <div className="relative aspect-[9/16] bg-muted rounded-lg overflow-hidden max-h-[60vh] mx-auto w-full max-w-sm">
             {previewUrl ? (
@@ -132,7 +319,7 @@ export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated }: StoryUp
                 {/* Send Arrow Button */}
                 <button
                   onClick={handlePublish}
-                  disabled={uploading}
+                  disabled={uploading || loadingDraft}
                   className="absolute bottom-4 right-4 bg-primary hover:bg-primary/90 disabled:opacity-50 text-primary-foreground rounded-full p-4 shadow-lg transition-all hover:scale-110 disabled:hover:scale-100"
                 >
                   {uploading ? (
@@ -144,8 +331,17 @@ export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated }: StoryUp
               </>
             ) : (
               <div className="flex flex-col items-center justify-center h-full gap-4 text-muted-foreground">
-                <Camera className="h-12 w-12" />
-                <p>Select a photo or video</p>
+                {processing ? (
+                  <>
+                    <Loader2 className="h-12 w-12 animate-spin" />
+                    <p>Preparing...</p>
+                  </>
+                ) : (
+                  <>
+                    <Camera className="h-12 w-12" />
+                    <p>Select a photo or video</p>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -163,6 +359,7 @@ export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated }: StoryUp
                     capture="environment"
                     onChange={handleFileSelect}
                     className="hidden"
+                    disabled={processing}
                   />
                 </label>
               </Button>
@@ -175,6 +372,7 @@ export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated }: StoryUp
                     accept="image/*,video/*"
                     onChange={handleFileSelect}
                     className="hidden"
+                    disabled={processing}
                   />
                 </label>
               </Button>
@@ -183,10 +381,11 @@ export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated }: StoryUp
 
           {/* Caption */}
           {previewUrl && (
-            <Textarea
+            <MentionInput
+              multiline
               placeholder="Add a caption..."
               value={caption}
-              onChange={(e) => setCaption(e.target.value)}
+              onChange={setCaption}
               className="resize-none"
               rows={2}
             />
@@ -197,7 +396,7 @@ export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated }: StoryUp
             <Button
               variant="outline"
               onClick={() => {
-                setSelectedFile(null);
+                setSelectedMedia(null);
                 setPreviewUrl(null);
               }}
               className="w-full"
@@ -205,7 +404,25 @@ export const StoryUploadSheet = ({ open, onOpenChange, onStoryCreated }: StoryUp
               Change Media
             </Button>
           )}
+
+          {draft.status !== "idle" && (
+            <p className="text-xs text-center text-muted-foreground">
+              {draft.status === "saving"
+                ? "Saving draft..."
+                : draft.status === "saved"
+                ? "Draft saved"
+                : "Couldn't save draft"}
+            </p>
+          )}
         </div>
+
+        <SaveDraftDialog
+          open={showLeaveDialog}
+          onOpenChange={setShowLeaveDialog}
+          onSave={() => handleLeaveChoice(true)}
+          onDiscard={() => handleLeaveChoice(false)}
+          busy={leaving}
+        />
       </SheetContent>
     </Sheet>
   );
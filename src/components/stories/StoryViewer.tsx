@@ -2,18 +2,21 @@ import { useState, useEffect } from "react";
 import { Sheet, SheetContent } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
-import { Input } from "@/components/ui/input";
 import { Heart, MessageCircle, X, ChevronLeft, ChevronRight, Trash2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
 import { VerifiedBadge } from "@/components/ui/verified-badge";
 import { ProfileLink } from "@/components/feed/ProfileLink";
+import { RichText } from "@/components/feed/RichText";
+import { CommentSheet } from "@/components/comments/CommentSheet";
+import { usePostRealtime } from "@/hooks/use-post-realtime";
 
 interface Story {
   id: string;
   user_id: string;
   content_url: string;
   content_type: string;
+  poster_url?: string | null;
   caption: string | null;
   created_at: string;
   profiles: {
@@ -35,10 +38,10 @@ interface StoryViewerProps {
 export const StoryViewer = ({ stories, initialIndex, open, onOpenChange, onStoryDeleted }: StoryViewerProps) => {
   const [currentIndex, setCurrentIndex] = useState(initialIndex);
   const [currentUser, setCurrentUser] = useState<any>(null);
-  const [comment, setComment] = useState("");
   const [liked, setLiked] = useState(false);
   const [likesCount, setLikesCount] = useState(0);
-  const [comments, setComments] = useState<any[]>([]);
+  const [commentsCount, setCommentsCount] = useState(0);
+  const [showComments, setShowComments] = useState(false);
 
   const currentStory = stories[currentIndex];
 
@@ -52,6 +55,16 @@ export const StoryViewer = ({ stories, initialIndex, open, onOpenChange, onStory
     }
   }, [currentStory?.id, open]);
 
+  usePostRealtime(open ? currentStory?.id : undefined, (event) => {
+    if (event.table !== "comments") return;
+
+    if (event.eventType === "INSERT") {
+      setCommentsCount((count) => count + 1);
+    } else if (event.eventType === "DELETE") {
+      setCommentsCount((count) => Math.max(count - 1, 0));
+    }
+  });
+
   const loadCurrentUser = async () => {
     const { data: { user } } = await supabase.auth.getUser();
     setCurrentUser(user);
@@ -60,12 +73,14 @@ export const StoryViewer = ({ stories, initialIndex, open, onOpenChange, onStory
   const loadStoryData = async () => {
     if (!currentStory) return;
 
-    // Load likes
-    const { count } = await supabase
-      .from("story_likes")
-      .select("*", { count: "exact", head: true })
-      .eq("story_id", currentStory.id);
-    setLikesCount(count || 0);
+    // Load counts
+    const { data: storyData } = await supabase
+      .from("stories")
+      .select("likes_count, comments_count")
+      .eq("id", currentStory.id)
+      .maybeSingle();
+    setLikesCount(storyData?.likes_count || 0);
+    setCommentsCount(storyData?.comments_count || 0);
 
     // Check if current user liked
     if (currentUser) {
@@ -78,25 +93,6 @@ export const StoryViewer = ({ stories, initialIndex, open, onOpenChange, onStory
       setLiked(!!data);
     }
 
-    // Load comments
-    const { data: commentsData } = await supabase
-      .from("story_comments")
-      .select(`
-        id,
-        content,
-        created_at,
-        user_id,
-        profiles!story_comments_user_id_fkey (
-          display_name,
-          handle,
-          avatar_url,
-          verified
-        )
-      `)
-      .eq("story_id", currentStory.id)
-      .order("created_at", { ascending: true });
-    
-    setComments(commentsData || []);
   };
 
   const handleLike = async () => {
@@ -131,33 +127,6 @@ export const StoryViewer = ({ stories, initialIndex, open, onOpenChange, onStory
     }
   };
 
-  const handleComment = async () => {
-    if (!currentUser || !currentStory || !comment.trim()) return;
-
-    try {
-      const { error } = await supabase
-        .from("story_comments")
-        .insert({
-          story_id: currentStory.id,
-          user_id: currentUser.id,
-          content: comment.trim(),
-        });
-
-      if (error) throw error;
-
-      setComment("");
-      loadStoryData();
-      toast({ title: "Comment added!" });
-    } catch (error: any) {
-      console.error("Error adding comment:", error);
-      toast({
-        title: "Error",
-        description: "Failed to add comment",
-        variant: "destructive",
-      });
-    }
-  };
-
   const handleDelete = async () => {
     if (!currentUser || !currentStory || currentStory.user_id !== currentUser.id) return;
 
@@ -209,6 +178,7 @@ export const StoryViewer = ({ stories, initialIndex, open, onOpenChange, onStory
             {currentStory.content_type === "video" ? (
               <video
                 src={currentStory.content_url}
+                poster={currentStory.poster_url ?? undefined}
                 className="w-full h-full object-contain"
                 autoPlay
                 loop
@@ -287,13 +257,15 @@ export const StoryViewer = ({ stories, initialIndex, open, onOpenChange, onStory
           {/* Caption */}
           {currentStory.caption && (
             <div className="absolute bottom-20 left-0 right-0 px-4">
-              <p className="text-white text-sm">{currentStory.caption}</p>
+              <p className="text-white text-sm">
+                <RichText text={currentStory.caption} linkClassName="text-white underline" />
+              </p>
             </div>
           )}
 
           {/* Actions */}
           <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black to-transparent p-4">
-            <div className="flex items-center gap-4 mb-2">
+            <div className="flex items-center gap-4">
               <Button
                 variant="ghost"
                 size="sm"
@@ -303,25 +275,24 @@ export const StoryViewer = ({ stories, initialIndex, open, onOpenChange, onStory
                 <Heart className={`h-6 w-6 ${liked ? "fill-current" : ""}`} />
               </Button>
               <span className="text-white text-sm">{likesCount}</span>
-              <MessageCircle className="h-6 w-6 text-white" />
-              <span className="text-white text-sm">{comments.length}</span>
-            </div>
-
-            {/* Comment Input */}
-            <div className="flex gap-2">
-              <Input
-                value={comment}
-                onChange={(e) => setComment(e.target.value)}
-                placeholder="Add a comment..."
-                className="bg-white/20 text-white placeholder:text-white/60 border-white/30"
-                onKeyPress={(e) => e.key === "Enter" && handleComment()}
-              />
-              <Button onClick={handleComment} disabled={!comment.trim()}>
-                Send
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowComments(true)}
+                className="text-white"
+              >
+                <MessageCircle className="h-6 w-6" />
               </Button>
+              <span className="text-white text-sm">{commentsCount}</span>
             </div>
           </div>
         </div>
+
+        <CommentSheet
+          open={showComments}
+          onOpenChange={setShowComments}
+          target={{ type: "story", id: currentStory.id }}
+        />
       </SheetContent>
     </Sheet>
   );
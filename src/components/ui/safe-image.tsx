@@ -104,6 +104,9 @@ export const SafeImage: React.FC<SafeImageProps> = ({
   const [error, setError] = React.useState<string | null>(null);
   const [retryCount, setRetryCount] = React.useState(0);
   const imgRef = React.useRef<HTMLImageElement>(null);
+  // The <img> isn't rendered until a source has loaded, so lazy loading
+  // observes the placeholder instead
+  const placeholderRef = React.useRef<HTMLDivElement>(null);
   const observerRef = React.useRef<IntersectionObserver | null>(null);
   const [isInView, setIsInView] = React.useState(loading === 'eager');
 
@@ -253,7 +256,8 @@ export const SafeImage: React.FC<SafeImageProps> = ({
 
   // Intersection Observer for lazy loading
   React.useEffect(() => {
-    if (loading === 'eager' || !imgRef.current) return;
+    const target = imgRef.current || placeholderRef.current;
+    if (loading === 'eager' || !target) return;
 
     observerRef.current = new IntersectionObserver(
       (entries) => {
@@ -267,7 +271,7 @@ export const SafeImage: React.FC<SafeImageProps> = ({
       { threshold: 0.1 }
     );
 
-    observerRef.current.observe(imgRef.current);
+    observerRef.current.observe(target);
 
     return () => {
       observerRef.current?.disconnect();
@@ -305,6 +309,7 @@ export const SafeImage: React.FC<SafeImageProps> = ({
     <>
       {isLoading && (
         <div 
+          ref={placeholderRef}
           className={cn("bg-muted animate-pulse", className)}
           style={{ width, height }}
         />
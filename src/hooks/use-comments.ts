@@ -0,0 +1,343 @@
+import { useState, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { usePostRealtime, useTrackRealtimeRows } from "@/hooks/use-post-realtime";
+import {
+  COMMENTS_PAGE_SIZE,
+  createComment,
+  fetchCommentsPage,
+  toCommentCursor,
+  type CommentCursor,
+  type CommentSort,
+  type CommentTarget,
+  type PostComment,
+} from "@/lib/comments";
+
+interface UseCommentsOptions {
+  enabled?: boolean;
+  sort?: CommentSort;
+}
+
+// Add comments not already in the list; new ones go first so realtime
+// arrivals and deep-linked comments show at the top
+const prependComments = (current: PostComment[], incoming: PostComment[]) => {
+  const seen = new Set(current.map((comment) => comment.id));
+  return [...incoming.filter((comment) => !seen.has(comment.id)), ...current];
+};
+
+const appendComments = (current: PostComment[], incoming: PostComment[]) => {
+  const seen = new Set(current.map((comment) => comment.id));
+  return [...current, ...incoming.filter((comment) => !seen.has(comment.id))];
+};
+
+// Replies paged so far for one thread
+interface ReplyPages {
+  cursor: CommentCursor | null;
+  done: boolean;
+}
+
+// Last row of a page as the cursor for the next one
+const lastCursor = (page: PostComment[]) =>
+  page.length > 0 ? toCommentCursor(page[page.length - 1]) : null;
+
+// Paged comments for one post, spark or story. Top-level comments load a page
+// at a time in the chosen sort order; replies load per thread when it is
+// expanded. Realtime inserts, edits and deletes are applied while enabled.
+export const useComments = (target: CommentTarget, { enabled = true, sort = "newest" }: UseCommentsOptions = {}) => {
+  const { toast } = useToast();
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [comments, setComments] = useState<PostComment[]>([]);
+  const [loading, setLoading] = useState(enabled);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set());
+  const [loadingReplies, setLoadingReplies] = useState<Set<string>>(new Set());
+  // Last row received from the server. Realtime inserts and deletes don't move
+  // it, so they can't make the next page repeat or skip comments.
+  const cursorRef = useRef<CommentCursor | null>(null);
+  const replyPagesRef = useRef(new Map<string, ReplyPages>());
+  const loadingMoreRef = useRef(false);
+  // Bumped on every reload so responses for an old target or sort are dropped
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id || null));
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      loadFirstPage();
+    }
+  }, [target.type, target.id, sort, enabled]);
+
+  // Loaded comments must be known to the hub for their deletes to arrive
+  const trackRows = useTrackRealtimeRows();
+  useEffect(() => {
+    const targetColumn = target.type === "story" ? "story_id" : "post_id";
+    trackRows(
+      "comments",
+      comments.map((comment) => ({ id: comment.id, [targetColumn]: target.id, user_id: comment.authorId }))
+    );
+  }, [comments, target.type, target.id, trackRows]);
+
+  usePostRealtime(enabled ? target.id : undefined, (event) => {
+    if (event.table !== "comments") return;
+
+    if (event.eventType === "INSERT") {
+      insertComments([event.new.id]);
+    } else if (event.eventType === "DELETE") {
+      removeComment(event.old.id);
+    } else if (event.eventType === "UPDATE") {
+      updateComment(event.new.id, {
+        content: event.new.content,
+        deletedAt: event.new.deleted_at || undefined,
+        likesCount: event.new.likes_count,
+        repliesCount: event.new.replies_count,
+      });
+    }
+  });
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const loadFirstPage = async () => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    try {
+      const page = await fetchCommentsPage({ target, sort });
+      if (requestId !== requestIdRef.current) return;
+
+      cursorRef.current = lastCursor(page);
+      replyPagesRef.current = new Map();
+      setComments(page);
+      setExpandedThreads(new Set());
+      setHasMore(page.length === COMMENTS_PAGE_SIZE);
+    } catch (error) {
+      console.error("Error loading comments:", error);
+      if (requestId === requestIdRef.current) showError("Failed to load comments");
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (loadingMoreRef.current || !hasMore) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await fetchCommentsPage({ target, sort, cursor: cursorRef.current });
+      if (requestId !== requestIdRef.current) return;
+
+      cursorRef.current = lastCursor(page) ?? cursorRef.current;
+      setComments((current) => appendComments(current, page));
+      setHasMore(page.length === COMMENTS_PAGE_SIZE);
+    } catch (error) {
+      console.error("Error loading more comments:", error);
+      showError("Failed to load more comments");
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  };
+
+  const loadReplies = async (parentId: string) => {
+    if (loadingReplies.has(parentId)) return;
+
+    const requestId = requestIdRef.current;
+    const cursor = replyPagesRef.current.get(parentId)?.cursor ?? null;
+    setLoadingReplies((current) => new Set(current).add(parentId));
+    try {
+      const page = await fetchCommentsPage({ target, parentId, cursor });
+      if (requestId !== requestIdRef.current) return;
+
+      replyPagesRef.current.set(parentId, {
+        cursor: lastCursor(page) ?? cursor,
+        done: page.length < COMMENTS_PAGE_SIZE,
+      });
+      setComments((current) => appendComments(current, page));
+    } catch (error) {
+      console.error("Error loading replies:", error);
+      showError("Failed to load replies");
+    } finally {
+      setLoadingReplies((current) => {
+        const next = new Set(current);
+        next.delete(parentId);
+        return next;
+      });
+    }
+  };
+
+  // Whether a thread still has replies on the server that aren't loaded
+  const hasMoreReplies = (comment: PostComment) => {
+    const pages = replyPagesRef.current.get(comment.id);
+    return pages ? !pages.done : comment.repliesCount > 0;
+  };
+
+  const expandThread = (commentId: string) => {
+    setExpandedThreads((current) => new Set(current).add(commentId));
+    if (!replyPagesRef.current.has(commentId)) {
+      loadReplies(commentId);
+    }
+  };
+
+  const collapseThread = (commentId: string) => {
+    setExpandedThreads((current) => {
+      const next = new Set(current);
+      next.delete(commentId);
+      return next;
+    });
+  };
+
+  // Fetch specific comments (e.g. from realtime) and add them to the list
+  const insertComments = async (commentIds: string[]) => {
+    try {
+      const rows = await fetchCommentsPage({ target, commentIds });
+      setComments((current) => prependComments(current, rows));
+      return rows;
+    } catch (error) {
+      console.error("Error loading comment:", error);
+      return [];
+    }
+  };
+
+  // Bring a deep-linked comment into view even if it isn't on a loaded page
+  const revealComment = async (commentId: string) => {
+    const [comment] = await insertComments([commentId]);
+    if (comment?.parentId) {
+      await insertComments([comment.parentId]);
+      expandThread(comment.parentId);
+    }
+  };
+
+  const updateComment = (commentId: string, patch: Partial<PostComment>) => {
+    setComments((current) =>
+      current.map((comment) => (comment.id === commentId ? { ...comment, ...patch } : comment))
+    );
+  };
+
+  const removeComment = (commentId: string) => {
+    setComments((current) => current.filter((comment) => comment.id !== commentId));
+  };
+
+  // Post a comment, or a reply when parent is given. Returns false on failure.
+  const addComment = async (content: string, parent?: PostComment | null) => {
+    if (!currentUserId) {
+      toast({
+        title: "Not authenticated",
+        description: "Please log in to comment",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    try {
+      const commentId = await createComment({
+        target,
+        userId: currentUserId,
+        content,
+        parentId: parent?.id,
+      });
+
+      // Don't wait for realtime to show the author their own comment
+      await insertComments([commentId]);
+      if (parent) {
+        const threadId = parent.parentId || parent.id;
+        expandThread(threadId);
+      }
+      return true;
+    } catch (error) {
+      console.error("Error adding comment:", error);
+      showError("Failed to add comment");
+      return false;
+    }
+  };
+
+  const deleteComment = async (comment: PostComment) => {
+    try {
+      const { error } = await supabase
+        .from("comments")
+        .delete()
+        .eq("id", comment.id);
+
+      if (error) throw error;
+
+      // Comments with replies are kept as placeholders by the database
+      if (comment.repliesCount > 0) {
+        updateComment(comment.id, { deletedAt: new Date().toISOString(), likesCount: 0, liked: false });
+      } else {
+        removeComment(comment.id);
+      }
+      toast({
+        title: "Comment deleted",
+        description: "Your comment has been removed",
+      });
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      showError("Failed to delete comment");
+    }
+  };
+
+  const toggleLike = async (comment: PostComment) => {
+    if (!currentUserId) {
+      toast({
+        title: "Not authenticated",
+        description: "Please log in to like comments",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const liked = !comment.liked;
+    updateComment(comment.id, {
+      liked,
+      likesCount: Math.max(comment.likesCount + (liked ? 1 : -1), 0),
+    });
+
+    try {
+      if (liked) {
+        const { error } = await supabase
+          .from("comment_likes")
+          .insert({ comment_id: comment.id, user_id: currentUserId });
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("comment_likes")
+          .delete()
+          .eq("comment_id", comment.id)
+          .eq("user_id", currentUserId);
+        if (error) throw error;
+      }
+    } catch (error) {
+      console.error("Error toggling comment like:", error);
+      updateComment(comment.id, { liked: comment.liked, likesCount: comment.likesCount });
+      showError("Failed to update like");
+    }
+  };
+
+  return {
+    currentUserId,
+    comments,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    reload: loadFirstPage,
+    expandedThreads,
+    expandThread,
+    collapseThread,
+    loadReplies,
+    loadingReplies,
+    hasMoreReplies,
+    revealComment,
+    addComment,
+    deleteComment,
+    toggleLike,
+  };
+};
@@ -0,0 +1,150 @@
+import { useState, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  DRAFT_AUTOSAVE_DELAY_MS,
+  deleteDraft,
+  isDraftEmpty,
+  removeDraftMedia,
+  saveDraft,
+  uploadDraftMedia,
+  type Draft,
+  type DraftContent,
+} from "@/lib/drafts";
+
+export type DraftStatus = "idle" | "saving" | "saved" | "error";
+
+interface UseDraftOptions {
+  // Autosave is paused while false, e.g. during publishing
+  enabled?: boolean;
+}
+
+// Identifies a version of the content; files count by their input id
+const getSignature = (content: DraftContent) =>
+  JSON.stringify({
+    kind: content.kind,
+    caption: content.caption,
+    media: content.media.map((item) => item.id),
+    poll: content.poll ?? null,
+    offer: content.offer ?? null,
+  });
+
+// Keeps a server-side draft in step with what is being composed. Saves after
+// a pause in editing, uploads each picked file once and deletes files that
+// were removed. Saves and discards run one at a time, in order.
+export const useDraft = (content: DraftContent, { enabled = true }: UseDraftOptions = {}) => {
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [status, setStatus] = useState<DraftStatus>("idle");
+  const draftIdRef = useRef<string | null>(null);
+  const contentRef = useRef(content);
+  contentRef.current = content;
+  // Storage path of every uploaded file, by input id
+  const pathsRef = useRef(new Map<string, string>());
+  const savedSignatureRef = useRef(getSignature(content));
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  const signature = getSignature(content);
+
+  useEffect(() => {
+    if (!enabled || signature === savedSignatureRef.current) return;
+
+    const timer = setTimeout(() => {
+      save().catch(() => undefined);
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [signature, enabled]);
+
+  const enqueue = <T>(task: () => Promise<T>) => {
+    const run = queueRef.current.then(task);
+    queueRef.current = run.catch(() => undefined);
+    return run;
+  };
+
+  const setCurrentDraft = (id: string | null) => {
+    draftIdRef.current = id;
+    setDraftId(id);
+  };
+
+  const persist = async () => {
+    const current = contentRef.current;
+    const currentSignature = getSignature(current);
+    if (currentSignature === savedSignatureRef.current) return;
+    // Nothing to keep yet. An existing draft stays until it is discarded.
+    if (!draftIdRef.current && isDraftEmpty(current)) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setStatus("saving");
+    const paths = pathsRef.current;
+    for (const item of current.media) {
+      if (!paths.has(item.id)) {
+        paths.set(item.id, await uploadDraftMedia(user.id, item.file));
+      }
+    }
+
+    const id = await saveDraft({ draftId: draftIdRef.current, userId: user.id, content: current, paths });
+    setCurrentDraft(id);
+    savedSignatureRef.current = currentSignature;
+
+    // Only drop files once the saved draft no longer points at them
+    const kept = new Set(current.media.map((item) => item.id));
+    const removed = [...paths].filter(([inputId]) => !kept.has(inputId));
+    removed.forEach(([inputId]) => paths.delete(inputId));
+    await removeDraftMedia(removed.map(([, path]) => path));
+
+    setStatus("saved");
+  };
+
+  const save = () =>
+    enqueue(persist).catch((error) => {
+      console.error("Error saving draft:", error);
+      setStatus("error");
+      throw error;
+    });
+
+  // Delete the draft and its files, e.g. after publishing or on "Discard"
+  const discard = () =>
+    enqueue(async () => {
+      const paths = [...pathsRef.current.values()];
+      if (draftIdRef.current) {
+        await deleteDraft(draftIdRef.current, paths);
+      } else {
+        await removeDraftMedia(paths);
+      }
+
+      pathsRef.current = new Map();
+      setCurrentDraft(null);
+      // Don't let a pending autosave bring it back
+      savedSignatureRef.current = getSignature(contentRef.current);
+      setStatus("idle");
+    });
+
+  // Stop tracking the draft without deleting it, to start on something new
+  const detach = () =>
+    enqueue(async () => {
+      pathsRef.current = new Map();
+      setCurrentDraft(null);
+      savedSignatureRef.current = getSignature(contentRef.current);
+      setStatus("idle");
+    });
+
+  // Continue a saved draft. restored must be what was loaded from it, with
+  // media in the same order as draft.media.
+  const resume = (draft: Draft, restored: DraftContent) => {
+    pathsRef.current = new Map(restored.media.map((item, index) => [item.id, draft.media[index].path]));
+    setCurrentDraft(draft.id);
+    savedSignatureRef.current = getSignature(restored);
+    setStatus("saved");
+  };
+
+  return {
+    draftId,
+    status,
+    // Something worth offering to save or discard
+    hasContent: !!draftId || !isDraftEmpty(content),
+    save,
+    discard,
+    detach,
+    resume,
+  };
+};
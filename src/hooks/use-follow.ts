@@ -0,0 +1,80 @@
+import { useState, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface UseFollowOptions {
+  initialFollowing?: boolean;
+  onChange?: (userId: string, following: boolean) => void;
+}
+
+// Follow state for one account. Updates optimistically and rolls back if the
+// write to follows fails.
+export const useFollow = (userId: string | undefined, { initialFollowing = false, onChange }: UseFollowOptions = {}) => {
+  const { toast } = useToast();
+  const [isFollowing, setIsFollowing] = useState(initialFollowing);
+  const [pending, setPending] = useState(false);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // Follow state can change elsewhere (another card by the same author)
+  useEffect(() => {
+    setIsFollowing(initialFollowing);
+  }, [userId, initialFollowing]);
+
+  const setFollowing = async (following: boolean) => {
+    if (!userId || pending) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "You must be logged in to follow people",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (user.id === userId) return;
+
+    setIsFollowing(following);
+    onChangeRef.current?.(userId, following);
+    setPending(true);
+
+    try {
+      if (following) {
+        const { error } = await supabase
+          .from("follows")
+          .insert({ follower_id: user.id, following_id: userId });
+
+        // Already following (e.g. from another tab) is fine
+        if (error && error.code !== "23505") throw error;
+      } else {
+        const { error } = await supabase
+          .from("follows")
+          .delete()
+          .eq("follower_id", user.id)
+          .eq("following_id", userId);
+
+        if (error) throw error;
+      }
+    } catch (error) {
+      console.error("Error updating follow:", error);
+      setIsFollowing(!following);
+      onChangeRef.current?.(userId, !following);
+      toast({
+        title: "Error",
+        description: following ? "Failed to follow" : "Failed to unfollow",
+        variant: "destructive",
+      });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return {
+    isFollowing,
+    pending,
+    follow: () => setFollowing(true),
+    unfollow: () => setFollowing(false),
+    toggleFollow: () => setFollowing(!isFollowing),
+  };
+};
@@ -0,0 +1,44 @@
+import { useEffect, useRef, type MouseEvent, type PointerEvent } from "react";
+
+// Pointer handlers that fire onLongPress after the pointer has been held for
+// `delay` ms. Spread `handlers` on the element and check `consumeLongPress()`
+// in its onClick so the click that ends a long press is ignored.
+export const useLongPress = (onLongPress: () => void, delay = 500) => {
+  const timerRef = useRef<number>();
+  const firedRef = useRef(false);
+
+  const cancel = () => {
+    window.clearTimeout(timerRef.current);
+  };
+
+  useEffect(() => cancel, []);
+
+  const start = (event: PointerEvent) => {
+    if (event.button !== 0) return;
+
+    firedRef.current = false;
+    cancel();
+    timerRef.current = window.setTimeout(() => {
+      firedRef.current = true;
+      onLongPress();
+    }, delay);
+  };
+
+  const consumeLongPress = () => {
+    const fired = firedRef.current;
+    firedRef.current = false;
+    return fired;
+  };
+
+  return {
+    handlers: {
+      onPointerDown: start,
+      onPointerUp: cancel,
+      onPointerLeave: cancel,
+      onPointerCancel: cancel,
+      // Stop mobile browsers opening the context menu mid-press
+      onContextMenu: (event: MouseEvent) => event.preventDefault(),
+    },
+    consumeLongPress,
+  };
+};
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from "react";
+
+// How long to wait for the realtime event of a write before giving up on it
+const ECHO_TIMEOUT_MS = 15000;
+
+// Writes that were already applied optimistically, so their own realtime
+// event (the echo) isn't applied a second time. Keys describe the change,
+// e.g. `likes:INSERT:<user id>`. Events without a pending write, such as the
+// same user acting from another tab, still go through.
+export const usePendingEchoes = () => {
+  const pendingRef = useRef(new Map<string, number[]>());
+
+  useEffect(
+    () => () => {
+      pendingRef.current.forEach((timers) => timers.forEach((timer) => window.clearTimeout(timer)));
+      pendingRef.current.clear();
+    },
+    []
+  );
+
+  const remove = (key: string, timer?: number) => {
+    const timers = pendingRef.current.get(key);
+    if (!timers?.length) return false;
+
+    const index = timer === undefined ? 0 : timers.indexOf(timer);
+    if (index === -1) return false;
+
+    window.clearTimeout(timers[index]);
+    timers.splice(index, 1);
+    if (timers.length === 0) pendingRef.current.delete(key);
+    return true;
+  };
+
+  // Call before sending the write
+  const expectEcho = (key: string) => {
+    const timer = window.setTimeout(() => remove(key, timer), ECHO_TIMEOUT_MS);
+    pendingRef.current.set(key, [...(pendingRef.current.get(key) || []), timer]);
+  };
+
+  // The write failed, so no event will come
+  const cancelEcho = (key: string) => {
+    remove(key);
+  };
+
+  // Whether an incoming event is the echo of a pending write; it is only
+  // matched once
+  const consumeEcho = (key: string) => remove(key);
+
+  return { expectEcho, cancelEcho, consumeEcho };
+};
@@ -0,0 +1,171 @@
+import * as React from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// Tables whose rows carry a post_id and are routed to per-post listeners.
+// Story comments carry a story_id instead and are routed by that.
+const POST_TABLES = ["likes", "comments", "reactions", "poll_votes", "reposts"] as const;
+
+export type PostRealtimeTable = (typeof POST_TABLES)[number];
+
+// The columns listeners read; anything else stays unknown
+export interface RealtimeRow extends Record<string, unknown> {
+  id?: string;
+  post_id?: string | null;
+  story_id?: string | null;
+  user_id?: string;
+  emoji?: string;
+  option_id?: string;
+  content?: string;
+  deleted_at?: string | null;
+  likes_count?: number;
+  replies_count?: number;
+}
+
+export interface PostRealtimeEvent {
+  table: PostRealtimeTable;
+  eventType: "INSERT" | "UPDATE" | "DELETE";
+  new: RealtimeRow;
+  old: RealtimeRow;
+}
+
+type PostRealtimeListener = (event: PostRealtimeEvent) => void;
+
+interface RealtimeHub {
+  subscribe: (postId: string, listener: PostRealtimeListener) => () => void;
+  track: (table: PostRealtimeTable, rows: RealtimeRow[]) => void;
+}
+
+const getTargetId = (row: RealtimeRow | undefined) => row?.post_id ?? row?.story_id;
+
+// Rows by post, then by table and id. A post's rows are forgotten together
+// once nothing listens to it any more, so the store doesn't grow unbounded.
+class RealtimeRowStore {
+  private rows = new Map<string, Map<string, RealtimeRow>>();
+  // Which post each row belongs to, to find it again from a bare id
+  private targets = new Map<string, string>();
+
+  remember(table: PostRealtimeTable, row: RealtimeRow) {
+    const targetId = getTargetId(row);
+    if (!row.id || !targetId) return;
+
+    const key = `${table}:${row.id}`;
+    if (!this.rows.has(targetId)) {
+      this.rows.set(targetId, new Map());
+    }
+    this.rows.get(targetId)!.set(key, row);
+    this.targets.set(key, targetId);
+  }
+
+  // Remove a row and return it
+  take(table: PostRealtimeTable, id: string | undefined) {
+    const key = `${table}:${id}`;
+    const targetId = this.targets.get(key);
+    if (!targetId) return undefined;
+
+    this.targets.delete(key);
+    const rows = this.rows.get(targetId);
+    const row = rows?.get(key);
+    rows?.delete(key);
+    return row;
+  }
+
+  forget(targetId: string) {
+    this.rows.get(targetId)?.forEach((_, key) => this.targets.delete(key));
+    this.rows.delete(targetId);
+  }
+}
+
+const RealtimeContext = React.createContext<RealtimeHub | null>(null);
+
+// Opens a single channel for the whole app instead of one per FeedCard, and
+// fans postgres_changes payloads out to whoever registered for that post.
+export const RealtimeProvider = ({ children }: { children: React.ReactNode }) => {
+  const listenersRef = React.useRef(new Map<string, Set<PostRealtimeListener>>());
+  // DELETEs on tables with RLS only carry the primary key in `old`, so keep
+  // the rows seen for posts that have listeners
+  const rowsRef = React.useRef(new RealtimeRowStore());
+
+  React.useEffect(() => {
+    const dispatch = (table: PostRealtimeTable) => (payload: RealtimePostgresChangesPayload<RealtimeRow>) => {
+      let old: RealtimeRow = payload.old;
+      if (payload.eventType === "DELETE") {
+        old = { ...rowsRef.current.take(table, old.id), ...old };
+      } else if (listenersRef.current.has(getTargetId(payload.new) ?? "")) {
+        rowsRef.current.remember(table, payload.new);
+      }
+
+      const targetId = getTargetId(payload.eventType === "DELETE" ? old : payload.new);
+      if (!targetId) return;
+
+      listenersRef.current.get(targetId)?.forEach((listener) =>
+        listener({
+          table,
+          eventType: payload.eventType,
+          new: payload.new,
+          old,
+        })
+      );
+    };
+
+    const channel = supabase.channel("post-engagement");
+    POST_TABLES.forEach((table) => {
+      channel.on("postgres_changes", { event: "*", schema: "public", table }, dispatch(table));
+    });
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const hub = React.useMemo<RealtimeHub>(
+    () => ({
+      subscribe: (postId, listener) => {
+        const listeners = listenersRef.current;
+        if (!listeners.has(postId)) {
+          listeners.set(postId, new Set());
+        }
+        listeners.get(postId)!.add(listener);
+
+        return () => {
+          const postListeners = listeners.get(postId);
+          postListeners?.delete(listener);
+          if (postListeners?.size === 0) {
+            listeners.delete(postId);
+            rowsRef.current.forget(postId);
+          }
+        };
+      },
+      track: (table, rows) => {
+        rows.forEach((row) => rowsRef.current.remember(table, row));
+      },
+    }),
+    []
+  );
+
+  return <RealtimeContext.Provider value={hub}>{children}</RealtimeContext.Provider>;
+};
+
+// Receive realtime events for one post (or story). The latest listener is always used,
+// so callers don't need to memoize it.
+export const usePostRealtime = (postId: string | undefined, listener: PostRealtimeListener) => {
+  const hub = React.useContext(RealtimeContext);
+  const listenerRef = React.useRef(listener);
+  listenerRef.current = listener;
+
+  React.useEffect(() => {
+    if (!hub || !postId) return;
+    return hub.subscribe(postId, (event) => listenerRef.current(event));
+  }, [hub, postId]);
+};
+
+// Register rows loaded outside realtime (e.g. a page of comments) so their
+// later DELETE events still reach the post's listeners
+export const useTrackRealtimeRows = () => {
+  const hub = React.useContext(RealtimeContext);
+  return React.useCallback(
+    (table: PostRealtimeTable, rows: RealtimeRow[]) => hub?.track(table, rows),
+    [hub]
+  );
+};
@@ -33,34 +33,64 @@ export type Database = {
           id?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "comment_likes_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       comments: {
         Row: {
           content: string
           created_at: string
+          deleted_at: string | null
           id: string
-          post_id: string
+          likes_count: number
+          parent_id: string | null
+          post_id: string | null
+          replies_count: number
+          story_id: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
           content: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
-          post_id: string
+          likes_count?: number
+          parent_id?: string | null
+          post_id?: string | null
+          replies_count?: number
+          story_id?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
           content?: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
-          post_id?: string
+          likes_count?: number
+          parent_id?: string | null
+          post_id?: string | null
+          replies_count?: number
+          story_id?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "comments_post_id_fkey"
             columns: ["post_id"]
@@ -68,6 +98,13 @@ export type Database = {
             referencedRelation: "posts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "comments_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "comments_user_id_fkey"
             columns: ["user_id"]
@@ -77,6 +114,42 @@ export type Database = {
           },
         ]
       }
+      drafts: {
+        Row: {
+          caption: string
+          created_at: string
+          id: string
+          kind: string
+          media: Json
+          offer: Json | null
+          poll: Json | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          caption?: string
+          created_at?: string
+          id?: string
+          kind: string
+          media?: Json
+          offer?: Json | null
+          poll?: Json | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          caption?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          media?: Json
+          offer?: Json | null
+          poll?: Json | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       follows: {
         Row: {
           created_at: string
@@ -98,6 +171,27 @@ export type Database = {
         }
         Relationships: []
       }
+      hashtags: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          posts_count: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          posts_count?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          posts_count?: number
+        }
+        Relationships: []
+      }
       likes: {
         Row: {
           created_at: string
@@ -127,9 +221,51 @@ export type Database = {
           },
         ]
       }
+      link_previews: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          image_url: string | null
+          post_id: string
+          site_name: string | null
+          title: string | null
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          post_id: string
+          site_name?: string | null
+          title?: string | null
+          url: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          post_id?: string
+          site_name?: string | null
+          title?: string | null
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "link_previews_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: true
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           actor_id: string | null
+          comment_id: string | null
           created_at: string
           id: string
           message: string
@@ -141,6 +277,7 @@ export type Database = {
         }
         Insert: {
           actor_id?: string | null
+          comment_id?: string | null
           created_at?: string
           id?: string
           message: string
@@ -152,6 +289,7 @@ export type Database = {
         }
         Update: {
           actor_id?: string | null
+          comment_id?: string | null
           created_at?: string
           id?: string
           message?: string
@@ -161,61 +299,422 @@ export type Database = {
           type?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offer_claims: {
+        Row: {
+          created_at: string
+          id: string
+          offer_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          offer_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          offer_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offer_claims_offer_id_fkey"
+            columns: ["offer_id"]
+            isOneToOne: false
+            referencedRelation: "post_offers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offer_claims_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
       pinned_posts: {
         Row: {
           created_at: string
           id: string
+          position: number
           post_id: string
           user_id: string
         }
         Insert: {
           created_at?: string
           id?: string
+          position?: number
           post_id: string
           user_id: string
         }
         Update: {
           created_at?: string
           id?: string
+          position?: number
           post_id?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "pinned_posts_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_options: {
+        Row: {
+          created_at: string
+          id: string
+          label: string
+          position: number
+          post_id: string
+          votes_count: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label: string
+          position: number
+          post_id: string
+          votes_count?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string
+          position?: number
+          post_id?: string
+          votes_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_options_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_votes: {
+        Row: {
+          created_at: string
+          id: string
+          option_id: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          option_id: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          option_id?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_votes_option_id_fkey"
+            columns: ["option_id"]
+            isOneToOne: false
+            referencedRelation: "poll_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_votes_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_votes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      post_hashtags: {
+        Row: {
+          created_at: string
+          hashtag_id: string
+          post_id: string
+        }
+        Insert: {
+          created_at?: string
+          hashtag_id: string
+          post_id: string
+        }
+        Update: {
+          created_at?: string
+          hashtag_id?: string
+          post_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_hashtags_hashtag_id_fkey"
+            columns: ["hashtag_id"]
+            isOneToOne: false
+            referencedRelation: "hashtags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_hashtags_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_media: {
+        Row: {
+          alt_text: string | null
+          created_at: string
+          duration_seconds: number | null
+          height: number | null
+          id: string
+          media_type: string
+          position: number
+          post_id: string
+          poster_path: string | null
+          storage_path: string
+          width: number | null
+        }
+        Insert: {
+          alt_text?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          height?: number | null
+          id?: string
+          media_type: string
+          position: number
+          post_id: string
+          poster_path?: string | null
+          storage_path: string
+          width?: number | null
+        }
+        Update: {
+          alt_text?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          height?: number | null
+          id?: string
+          media_type?: string
+          position?: number
+          post_id?: string
+          poster_path?: string | null
+          storage_path?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_media_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_offers: {
+        Row: {
+          claims_count: number
+          code: string
+          created_at: string
+          expires_at: string
+          id: string
+          landing_url: string
+          post_id: string
+          title: string
+        }
+        Insert: {
+          claims_count?: number
+          code: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          landing_url: string
+          post_id: string
+          title: string
+        }
+        Update: {
+          claims_count?: number
+          code?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          landing_url?: string
+          post_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_offers_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: true
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_revisions: {
+        Row: {
+          caption: string | null
+          created_at: string
+          id: string
+          media_alt_text: Json
+          post_id: string
+        }
+        Insert: {
+          caption?: string | null
+          created_at?: string
+          id?: string
+          media_alt_text?: Json
+          post_id: string
+        }
+        Update: {
+          caption?: string | null
+          created_at?: string
+          id?: string
+          media_alt_text?: Json
+          post_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_revisions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_shares: {
+        Row: {
+          channel: string
+          created_at: string
+          id: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          created_at?: string
+          id?: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          id?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_shares_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       posts: {
         Row: {
           caption: string | null
+          comments_count: number
           content_type: string
           content_url: string | null
           created_at: string
+          edited_at: string | null
           id: string
+          is_published: boolean
           is_spark: boolean
+          likes_count: number
+          poll_closed_at: string | null
+          poll_closes_at: string | null
+          publish_at: string | null
+          quoted_post_id: string | null
+          reposts_count: number
+          shares_count: number
           updated_at: string
           user_id: string
         }
         Insert: {
           caption?: string | null
+          comments_count?: number
           content_type: string
           content_url?: string | null
           created_at?: string
+          edited_at?: string | null
           id?: string
+          is_published?: boolean
           is_spark?: boolean
+          likes_count?: number
+          poll_closed_at?: string | null
+          poll_closes_at?: string | null
+          publish_at?: string | null
+          quoted_post_id?: string | null
+          reposts_count?: number
+          shares_count?: number
           updated_at?: string
           user_id: string
         }
         Update: {
           caption?: string | null
+          comments_count?: number
           content_type?: string
           content_url?: string | null
           created_at?: string
+          edited_at?: string | null
           id?: string
+          is_published?: boolean
           is_spark?: boolean
+          likes_count?: number
+          poll_closed_at?: string | null
+          poll_closes_at?: string | null
+          publish_at?: string | null
+          quoted_post_id?: string | null
+          reposts_count?: number
+          shares_count?: number
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "posts_quoted_post_id_fkey"
+            columns: ["quoted_post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "posts_user_id_fkey"
             columns: ["user_id"]
@@ -279,97 +778,183 @@ export type Database = {
         }
         Relationships: []
       }
-      reposts: {
+      reactions: {
         Row: {
           created_at: string
+          emoji: string
           id: string
           post_id: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          emoji: string
           id?: string
           post_id: string
           user_id: string
         }
         Update: {
           created_at?: string
+          emoji?: string
           id?: string
           post_id?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "reactions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
-      stories: {
+      reposts: {
         Row: {
-          caption: string | null
-          content_type: string
-          content_url: string
           created_at: string
-          expires_at: string
           id: string
+          post_id: string
           user_id: string
         }
         Insert: {
-          caption?: string | null
-          content_type: string
-          content_url: string
           created_at?: string
-          expires_at?: string
           id?: string
+          post_id: string
           user_id: string
         }
         Update: {
-          caption?: string | null
-          content_type?: string
-          content_url?: string
           created_at?: string
-          expires_at?: string
           id?: string
+          post_id?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "stories_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "reposts_post_id_fkey"
+            columns: ["post_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["user_id"]
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
           },
         ]
       }
-      story_comments: {
+      saved_collections: {
         Row: {
-          content: string
           created_at: string
           id: string
-          story_id: string
+          name: string
           user_id: string
         }
         Insert: {
-          content: string
           created_at?: string
           id?: string
-          story_id: string
+          name: string
           user_id: string
         }
         Update: {
-          content?: string
           created_at?: string
           id?: string
-          story_id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      saved_posts: {
+        Row: {
+          collection_id: string | null
+          created_at: string
+          id: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          collection_id?: string | null
+          created_at?: string
+          id?: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          collection_id?: string | null
+          created_at?: string
+          id?: string
+          post_id?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "story_comments_story_id_fkey"
-            columns: ["story_id"]
+            foreignKeyName: "saved_posts_collection_id_fkey"
+            columns: ["collection_id"]
             isOneToOne: false
-            referencedRelation: "stories"
+            referencedRelation: "saved_collections"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "story_comments_user_id_fkey"
+            foreignKeyName: "saved_posts_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stories: {
+        Row: {
+          caption: string | null
+          comments_count: number
+          content_type: string
+          content_url: string
+          created_at: string
+          duration_seconds: number | null
+          expires_at: string
+          height: number | null
+          id: string
+          likes_count: number
+          poster_url: string | null
+          user_id: string
+          width: number | null
+        }
+        Insert: {
+          caption?: string | null
+          comments_count?: number
+          content_type: string
+          content_url: string
+          created_at?: string
+          duration_seconds?: number | null
+          expires_at?: string
+          height?: number | null
+          id?: string
+          likes_count?: number
+          poster_url?: string | null
+          user_id: string
+          width?: number | null
+        }
+        Update: {
+          caption?: string | null
+          comments_count?: number
+          content_type?: string
+          content_url?: string
+          created_at?: string
+          duration_seconds?: number | null
+          expires_at?: string
+          height?: number | null
+          id?: string
+          likes_count?: number
+          poster_url?: string | null
+          user_id?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stories_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -418,7 +1003,167 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_offer: {
+        Args: {
+          p_offer_id: string
+        }
+        Returns: string
+      }
+      close_expired_polls: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      create_post: {
+        Args: {
+          p_caption: string
+          p_content_type: string
+          p_content_url?: string
+          p_hold?: boolean
+          p_is_spark?: boolean
+          p_media?: Json
+          p_offer?: Json
+          p_poll_closes_at?: string
+          p_poll_options?: string[]
+          p_publish_at?: string
+          p_quoted_post_id?: string
+        }
+        Returns: string
+      }
+      edit_post: {
+        Args: {
+          p_caption: string
+          p_media_alt_text?: Json
+          p_post_id: string
+        }
+        Returns: string
+      }
+      extract_hashtags: {
+        Args: {
+          p_text: string
+        }
+        Returns: string[]
+      }
+      extract_mentions: {
+        Args: {
+          p_text: string
+        }
+        Returns: string[]
+      }
+      get_comments_page: {
+        Args: {
+          p_comment_ids?: string[]
+          p_cursor_created_at?: string
+          p_cursor_id?: string
+          p_cursor_likes_count?: number
+          p_limit?: number
+          p_parent_id?: string
+          p_post_id?: string
+          p_sort?: string
+          p_story_id?: string
+        }
+        Returns: {
+          author_avatar_url: string
+          author_display_name: string
+          author_handle: string
+          author_verified: boolean
+          content: string
+          created_at: string
+          deleted_at: string
+          id: string
+          likes_count: number
+          parent_id: string
+          post_id: string
+          replies_count: number
+          story_id: string
+          user_id: string
+          viewer_has_liked: boolean
+        }[]
+      }
+      get_feed_page: {
+        Args: {
+          p_cursor_created_at?: string
+          p_cursor_id?: string
+          p_feed?: string
+          p_limit?: number
+          p_post_ids?: string[]
+          p_tag?: string
+          p_user_id?: string
+        }
+        Returns: {
+          author_avatar_url: string
+          author_display_name: string
+          author_handle: string
+          author_is_followed: boolean
+          author_verified: boolean
+          caption: string
+          comments_count: number
+          content_type: string
+          content_url: string
+          created_at: string
+          edited_at: string
+          feed_created_at: string
+          feed_item_id: string
+          id: string
+          is_spark: boolean
+          likes_count: number
+          link_preview: Json
+          media: Json
+          offer: Json
+          poll: Json
+          quoted_post: Json
+          reaction_counts: Json
+          reposted_by: Json
+          reposts_count: number
+          shares_count: number
+          user_id: string
+          viewer_has_liked: boolean
+          viewer_has_pinned: boolean
+          viewer_has_reposted: boolean
+          viewer_has_saved: boolean
+          viewer_reactions: string[]
+        }[]
+      }
+      notify_mentions: {
+        Args: {
+          p_actor_id: string
+          p_comment_id?: string
+          p_context: string
+          p_old_text: string
+          p_post_id?: string
+          p_text: string
+        }
+        Returns: undefined
+      }
+      publish_post: {
+        Args: {
+          p_post_id: string
+        }
+        Returns: undefined
+      }
+      publish_scheduled_posts: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      reorder_pinned_posts: {
+        Args: {
+          p_post_ids: string[]
+        }
+        Returns: undefined
+      }
+      reschedule_post: {
+        Args: {
+          p_post_id: string
+          p_publish_at: string
+        }
+        Returns: undefined
+      }
+      sync_post_hashtags: {
+        Args: {
+          p_caption: string
+          p_post_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
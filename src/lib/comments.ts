@@ -0,0 +1,157 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type CommentRow = Database["public"]["Functions"]["get_comments_page"]["Returns"][number];
+
+export type CommentSort = "top" | "newest";
+
+export const COMMENTS_PAGE_SIZE = 20;
+
+export const DELETED_COMMENT_TEXT = "[deleted]";
+
+// What a comment thread hangs off. Posts and sparks share posts.id; stories
+// have their own id space and are stored in comments.story_id.
+export type CommentTargetType = "post" | "spark" | "story";
+
+export interface CommentTarget {
+  type: CommentTargetType;
+  id: string;
+}
+
+export interface PostComment {
+  id: string;
+  authorId: string;
+  parentId: string | null;
+  author: {
+    username: string;
+    displayName: string;
+    avatar: string;
+    verified?: boolean;
+  };
+  content: string;
+  createdAt: string;
+  deletedAt?: string;
+  likesCount: number;
+  repliesCount: number;
+  liked: boolean;
+}
+
+// Where the next page starts: the last comment of the previous one. Top
+// comments also need its like count, which they sort by first.
+export interface CommentCursor {
+  createdAt: string;
+  id: string;
+  likesCount: number;
+}
+
+export const toCommentCursor = (comment: PostComment): CommentCursor => ({
+  createdAt: comment.createdAt,
+  id: comment.id,
+  likesCount: comment.likesCount,
+});
+
+export const toPostComment = (row: CommentRow): PostComment => ({
+  id: row.id,
+  authorId: row.user_id,
+  parentId: row.parent_id,
+  author: {
+    username: row.author_handle || "user",
+    displayName: row.author_display_name || "User",
+    avatar: row.author_avatar_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${row.user_id}`,
+    verified: row.author_verified || false,
+  },
+  content: row.content,
+  createdAt: row.created_at,
+  deletedAt: row.deleted_at || undefined,
+  likesCount: row.likes_count,
+  repliesCount: row.replies_count,
+  liked: row.viewer_has_liked,
+});
+
+interface FetchCommentsPageOptions {
+  target: CommentTarget;
+  sort?: CommentSort;
+  cursor?: CommentCursor | null;
+  limit?: number;
+  // Replies to this comment, oldest first, instead of top-level comments
+  parentId?: string;
+  commentIds?: string[];
+}
+
+export const fetchCommentsPage = async ({
+  target,
+  sort = "newest",
+  cursor,
+  limit = COMMENTS_PAGE_SIZE,
+  parentId,
+  commentIds,
+}: FetchCommentsPageOptions): Promise<PostComment[]> => {
+  const { data, error } = await supabase.rpc("get_comments_page", {
+    p_post_id: target.type === "story" ? undefined : target.id,
+    p_story_id: target.type === "story" ? target.id : undefined,
+    p_sort: sort,
+    p_limit: limit,
+    p_cursor_created_at: cursor?.createdAt,
+    p_cursor_id: cursor?.id,
+    p_cursor_likes_count: cursor?.likesCount,
+    p_parent_id: parentId,
+    p_comment_ids: commentIds,
+  });
+
+  if (error) throw error;
+  return (data || []).map(toPostComment);
+};
+
+// Insert a comment or reply and return its id
+export const createComment = async ({
+  target,
+  userId,
+  content,
+  parentId,
+}: {
+  target: CommentTarget;
+  userId: string;
+  content: string;
+  parentId?: string | null;
+}): Promise<string> => {
+  const { data, error } = await supabase
+    .from("comments")
+    .insert({
+      post_id: target.type === "story" ? null : target.id,
+      story_id: target.type === "story" ? target.id : null,
+      user_id: userId,
+      content,
+      parent_id: parentId ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+export interface CommentThreadGroup {
+  comment: PostComment;
+  replies: PostComment[];
+}
+
+// Groups a flat comment list into top-level comments (kept in the given order)
+// with their replies oldest first. Replies whose parent isn't loaded are dropped.
+export const groupCommentThreads = (comments: PostComment[]): CommentThreadGroup[] => {
+  const replies = new Map<string, PostComment[]>();
+  for (const comment of comments) {
+    if (!comment.parentId) continue;
+    const siblings = replies.get(comment.parentId) || [];
+    siblings.push(comment);
+    replies.set(comment.parentId, siblings);
+  }
+
+  return comments
+    .filter((comment) => !comment.parentId)
+    .map((comment) => ({
+      comment,
+      replies: (replies.get(comment.id) || []).sort(
+        (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      ),
+    }));
+};
@@ -0,0 +1,196 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { OfferDraft } from "@/lib/offers";
+import type { PollDraft } from "@/lib/polls";
+
+// Private bucket; files live under the owner's user id
+export const DRAFTS_BUCKET = "drafts";
+
+// How long editing has to pause before the draft is saved
+export const DRAFT_AUTOSAVE_DELAY_MS = 1500;
+
+export type DraftKind = "post" | "spark" | "story";
+
+// Shape of an item in drafts.media
+interface DraftRowMedia {
+  path: string;
+  type: "image" | "video";
+  mime_type: string;
+  name: string;
+  width?: number | null;
+  height?: number | null;
+}
+
+// A file picked in the composer or story sheet, as the autosave sees it
+export interface DraftMediaInput {
+  id: string;
+  file: File;
+  type: "image" | "video";
+  width?: number;
+  height?: number;
+}
+
+export interface DraftMedia {
+  path: string;
+  type: "image" | "video";
+  mimeType: string;
+  name: string;
+  width?: number;
+  height?: number;
+}
+
+export interface DraftContent {
+  kind: DraftKind;
+  caption: string;
+  media: DraftMediaInput[];
+  poll?: PollDraft | null;
+  offer?: OfferDraft | null;
+}
+
+export interface Draft {
+  id: string;
+  kind: DraftKind;
+  caption: string;
+  media: DraftMedia[];
+  poll?: PollDraft;
+  offer?: OfferDraft;
+  updatedAt: string;
+}
+
+type DraftRow = {
+  id: string;
+  kind: string;
+  caption: string;
+  media: Json;
+  poll: Json | null;
+  offer: Json | null;
+  updated_at: string;
+};
+
+export const toDraft = (row: DraftRow): Draft => ({
+  id: row.id,
+  kind: row.kind as DraftKind,
+  caption: row.caption,
+  media: ((row.media as unknown as DraftRowMedia[] | null) || []).map((item) => ({
+    path: item.path,
+    type: item.type,
+    mimeType: item.mime_type,
+    name: item.name,
+    width: item.width ?? undefined,
+    height: item.height ?? undefined,
+  })),
+  poll: (row.poll as unknown as PollDraft | null) || undefined,
+  offer: (row.offer as unknown as OfferDraft | null) || undefined,
+  updatedAt: row.updated_at,
+});
+
+// Nothing worth keeping: no text, files, poll options or offer details
+export const isDraftEmpty = ({ caption, media, poll, offer }: DraftContent) =>
+  !caption.trim() &&
+  media.length === 0 &&
+  !poll?.options.some((option) => option.trim()) &&
+  !(offer && Object.values(offer).some((value) => value.trim()));
+
+export const fetchDrafts = async (): Promise<Draft[]> => {
+  const { data, error } = await supabase
+    .from("drafts")
+    .select("id, kind, caption, media, poll, offer, updated_at")
+    .order("updated_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toDraft);
+};
+
+export const fetchDraft = async (draftId: string): Promise<Draft | null> => {
+  const { data, error } = await supabase
+    .from("drafts")
+    .select("id, kind, caption, media, poll, offer, updated_at")
+    .eq("id", draftId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toDraft(data) : null;
+};
+
+export const uploadDraftMedia = async (userId: string, file: File) => {
+  const fileExt = file.name.split(".").pop();
+  const path = `${userId}/${crypto.randomUUID()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from(DRAFTS_BUCKET).upload(path, file);
+  if (error) throw error;
+  return path;
+};
+
+export const removeDraftMedia = async (paths: string[]) => {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(DRAFTS_BUCKET).remove(paths);
+  if (error) throw error;
+};
+
+// Download a draft's file so it can be published like a freshly picked one
+export const loadDraftFile = async (item: DraftMedia) => {
+  const { data, error } = await supabase.storage.from(DRAFTS_BUCKET).download(item.path);
+  if (error) throw error;
+  return new File([data], item.name, { type: item.mimeType });
+};
+
+// Short-lived URL for thumbnails in the drafts list
+export const getDraftMediaUrl = async (path: string) => {
+  const { data, error } = await supabase.storage.from(DRAFTS_BUCKET).createSignedUrl(path, 60 * 60);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+// Insert or update the draft row and return its id. Media must already be
+// uploaded; paths maps each input's id to its storage path.
+export const saveDraft = async ({
+  draftId,
+  userId,
+  content,
+  paths,
+}: {
+  draftId: string | null;
+  userId: string;
+  content: DraftContent;
+  paths: Map<string, string>;
+}): Promise<string> => {
+  const media: DraftRowMedia[] = content.media.map((item) => ({
+    path: paths.get(item.id)!,
+    type: item.type,
+    mime_type: item.file.type,
+    name: item.file.name,
+    width: item.width ?? null,
+    height: item.height ?? null,
+  }));
+  const row = {
+    kind: content.kind,
+    caption: content.caption,
+    media: media as unknown as Json,
+    poll: (content.poll ?? null) as unknown as Json,
+    offer: (content.offer ?? null) as unknown as Json,
+  };
+
+  if (draftId) {
+    const { error } = await supabase.from("drafts").update(row).eq("id", draftId);
+    if (error) throw error;
+    return draftId;
+  }
+
+  const { data, error } = await supabase
+    .from("drafts")
+    .insert({ ...row, user_id: userId })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+// Remove the draft row and its files
+export const deleteDraft = async (draftId: string, paths: string[]) => {
+  const { error } = await supabase.from("drafts").delete().eq("id", draftId);
+  if (error) throw error;
+
+  await removeDraftMedia(paths);
+};
@@ -0,0 +1,427 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { toPostPoll, type PostPoll } from "@/lib/polls";
+import { attachLinkPreview, toLinkPreview, type LinkPreview } from "@/lib/link-preview";
+import { extractUrls } from "@/lib/links";
+import { toPostOffer, type PostOffer } from "@/lib/offers";
+import { isReactionEmoji, type ReactionCounts, type ReactionEmoji } from "@/lib/reactions";
+
+export type FeedRow = Database["public"]["Functions"]["get_feed_page"]["Returns"][number];
+
+export type FeedType = "for_you" | "following";
+
+export interface PostMedia {
+  id: string;
+  type: "image" | "video";
+  url: string;
+  width?: number;
+  height?: number;
+  alt?: string;
+  // Videos only: a still to show until playback, and the length in seconds
+  posterUrl?: string;
+  duration?: number;
+}
+
+// Shape of each item in get_feed_page's media column
+interface FeedRowMedia {
+  id: string;
+  type: PostMedia["type"];
+  path: string;
+  width: number | null;
+  height: number | null;
+  alt: string | null;
+  poster: string | null;
+  duration: number | null;
+}
+
+// Shape of get_feed_page's quoted_post column
+interface FeedRowQuotedPost {
+  id: string;
+  user_id: string;
+  caption: string | null;
+  is_spark: boolean;
+  created_at: string;
+  author_display_name: string | null;
+  author_handle: string | null;
+  author_avatar_url: string | null;
+  author_verified: boolean;
+  cover: { type: PostMedia["type"]; path: string; poster?: string | null } | null;
+}
+
+// Compact copy of the post a quote embeds
+export interface QuotedPost {
+  id: string;
+  authorId: string;
+  author: {
+    username: string;
+    displayName: string;
+    avatar: string;
+    verified?: boolean;
+  };
+  caption: string;
+  isSpark: boolean;
+  timestamp: string;
+  cover?: {
+    type: PostMedia["type"];
+    url: string;
+    posterUrl?: string;
+  };
+}
+
+// Shape of get_feed_page's reposted_by column
+interface FeedRowReposter {
+  user_id: string;
+  handle: string | null;
+  display_name: string | null;
+}
+
+export interface FeedPost {
+  id: string;
+  authorId: string;
+  author: {
+    username: string;
+    displayName: string;
+    avatar: string;
+    verified?: boolean;
+    isFollowing?: boolean;
+  };
+  content: {
+    type: "image" | "video" | "text" | "poll";
+    url?: string;
+    caption: string;
+    media?: PostMedia[];
+  };
+  poll?: PostPoll;
+  // Preview card for the first URL in the caption
+  linkPreview?: LinkPreview;
+  engagement: {
+    likes: number;
+    comments: number;
+    shares: number;
+    reposts?: number;
+    reactions?: ReactionCounts;
+  };
+  viewer?: {
+    liked: boolean;
+    saved: boolean;
+    pinned: boolean;
+    reposted: boolean;
+    reactions: ReactionEmoji[];
+  };
+  isSpark?: boolean;
+  timestamp: string;
+  createdAt?: string;
+  editedAt?: string;
+  brandTag?: {
+    name: string;
+    offer?: string;
+  };
+  // Set on sponsored posts from brand accounts
+  offer?: PostOffer;
+  quotedPost?: QuotedPost;
+  // Set when this feed item is someone's repost of the post
+  repostedBy?: {
+    userId: string;
+    username: string;
+    displayName: string;
+  };
+  // Position of this item in the feed, for paging
+  cursor: FeedCursor;
+}
+
+// Keyset cursor: the (created_at, id) pair of the last item on the previous
+// page. For reposts these are the repost's own time and id.
+export interface FeedCursor {
+  createdAt: string;
+  id: string;
+}
+
+export const FEED_PAGE_SIZE = 20;
+
+// Deep link to the detail page for a post or spark
+export const getPostPath = (postId: string, isSpark?: boolean) =>
+  isSpark ? `/sparks/${postId}` : `/post/${postId}`;
+
+export const getTimeAgo = (date: Date): string => {
+  const seconds = Math.floor((new Date().getTime() - date.getTime()) / 1000);
+
+  if (seconds < 60) return "just now";
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  const weeks = Math.floor(days / 7);
+  return `${weeks}w ago`;
+};
+
+// Get full public URL for storage paths
+const toPublicUrl = (path: string, bucket: string) => {
+  if (path.startsWith("http")) return path;
+
+  const { data: { publicUrl } } = supabase.storage.from(bucket).getPublicUrl(path);
+  return publicUrl;
+};
+
+const toQuotedPost = (value: unknown): QuotedPost | undefined => {
+  const quoted = value as FeedRowQuotedPost | null;
+  if (!quoted) return undefined;
+
+  const bucket = quoted.is_spark ? "sparks" : "posts";
+  return {
+    id: quoted.id,
+    authorId: quoted.user_id,
+    author: {
+      username: quoted.author_handle || "user",
+      displayName: quoted.author_display_name || "User",
+      avatar: quoted.author_avatar_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${quoted.user_id}`,
+      verified: quoted.author_verified,
+    },
+    caption: quoted.caption || "",
+    isSpark: quoted.is_spark,
+    timestamp: getTimeAgo(new Date(quoted.created_at)),
+    cover: quoted.cover
+      ? {
+          type: quoted.cover.type,
+          url: toPublicUrl(quoted.cover.path, bucket),
+          posterUrl: quoted.cover.poster ? toPublicUrl(quoted.cover.poster, bucket) : undefined,
+        }
+      : undefined,
+  };
+};
+
+// Embed for a post already in the feed, e.g. to preview a quote of it
+export const toQuotedPostPreview = (post: FeedPost): QuotedPost => {
+  const [first] = post.content.media || [];
+  const cover = first
+    ? { type: first.type, url: first.url, posterUrl: first.posterUrl }
+    : post.content.url
+    ? { type: post.content.type, url: post.content.url }
+    : null;
+
+  return {
+    id: post.id,
+    authorId: post.authorId,
+    author: post.author,
+    caption: post.content.caption,
+    isSpark: post.isSpark || false,
+    timestamp: post.timestamp,
+    cover:
+      cover && (cover.type === "image" || cover.type === "video")
+        ? { type: cover.type, url: cover.url, posterUrl: cover.posterUrl }
+        : undefined,
+  };
+};
+
+export const toFeedPost = (row: FeedRow): FeedPost => {
+  const offer = toPostOffer(row.offer);
+  const reposter = row.reposted_by as unknown as FeedRowReposter | null;
+  const bucket = row.is_spark ? "sparks" : "posts";
+  const contentUrl = row.content_url ? toPublicUrl(row.content_url, bucket) : null;
+  const media = ((row.media as unknown as FeedRowMedia[] | null) || []).map((item) => ({
+    id: item.id,
+    type: item.type,
+    url: toPublicUrl(item.path, bucket),
+    width: item.width ?? undefined,
+    height: item.height ?? undefined,
+    alt: item.alt ?? undefined,
+    posterUrl: item.poster ? toPublicUrl(item.poster, bucket) : undefined,
+    duration: item.duration ?? undefined,
+  }));
+
+  return {
+    id: row.id,
+    authorId: row.user_id,
+    author: {
+      username: row.author_handle || "user",
+      displayName: row.author_display_name || "User",
+      avatar: row.author_avatar_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${row.user_id}`,
+      verified: row.author_verified || false,
+      isFollowing: row.author_is_followed,
+    },
+    content: {
+      type: row.content_type as FeedPost["content"]["type"],
+      url: contentUrl || undefined,
+      caption: row.caption || "",
+      media,
+    },
+    poll: toPostPoll(row.poll),
+    linkPreview: toLinkPreview(row.link_preview),
+    engagement: {
+      likes: row.likes_count,
+      comments: row.comments_count,
+      shares: row.shares_count,
+      reposts: row.reposts_count,
+      reactions: (row.reaction_counts as ReactionCounts | null) || {},
+    },
+    viewer: {
+      liked: row.viewer_has_liked,
+      saved: row.viewer_has_saved,
+      pinned: row.viewer_has_pinned,
+      reposted: row.viewer_has_reposted,
+      reactions: (row.viewer_reactions || []).filter(isReactionEmoji),
+    },
+    isSpark: row.is_spark,
+    timestamp: getTimeAgo(new Date(row.created_at)),
+    createdAt: row.created_at,
+    editedAt: row.edited_at || undefined,
+    brandTag: offer ? { name: row.author_display_name || "Brand", offer: offer.title } : undefined,
+    offer,
+    quotedPost: toQuotedPost(row.quoted_post),
+    repostedBy: reposter
+      ? {
+          userId: reposter.user_id,
+          username: reposter.handle || "user",
+          displayName: reposter.display_name || "User",
+        }
+      : undefined,
+    cursor: { createdAt: row.feed_created_at, id: row.feed_item_id },
+  };
+};
+
+interface FetchFeedPageOptions {
+  feed?: FeedType;
+  // Posts and sparks carrying this hashtag; takes precedence over feed
+  tag?: string;
+  // Posts and reposts by this user, for their profile; takes precedence over feed
+  userId?: string;
+  cursor?: FeedCursor | null;
+  limit?: number;
+  postIds?: string[];
+}
+
+export const fetchFeedPage = async ({
+  feed = "for_you",
+  tag,
+  userId,
+  cursor = null,
+  limit = FEED_PAGE_SIZE,
+  postIds,
+}: FetchFeedPageOptions = {}): Promise<FeedRow[]> => {
+  const { data, error } = await supabase.rpc("get_feed_page", {
+    p_feed: tag ? "tag" : userId ? "profile" : feed,
+    p_limit: limit,
+    p_cursor_created_at: cursor?.createdAt,
+    p_cursor_id: cursor?.id,
+    p_post_ids: postIds,
+    p_tag: tag,
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Append incoming posts, skipping any already present (e.g. delivered by realtime)
+export const mergePosts = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const seen = new Set(current.map((post) => post.id));
+  return [...current, ...incoming.filter((post) => !seen.has(post.id))];
+};
+
+// One carousel item of a new post, already uploaded to storage
+export interface NewPostMedia {
+  media_type: "image" | "video";
+  storage_path: string;
+  width?: number;
+  height?: number;
+  poster_path?: string | null;
+  duration_seconds?: number | null;
+}
+
+interface CreatePostOptions {
+  caption: string;
+  contentType: string;
+  contentUrl?: string | null;
+  isSpark?: boolean;
+  quotedPostId?: string;
+  // Queue the post instead of publishing it now
+  publishAt?: Date | null;
+  pollClosesAt?: string | null;
+  media?: NewPostMedia[];
+  pollOptions?: string[];
+  offer?: Json;
+}
+
+// Create a post with its media, poll options and offer in one transaction,
+// then store the preview for the first link in the caption. A post going out
+// now is held back until then so it never shows up half built. Returns its id.
+export const createPost = async ({
+  caption,
+  contentType,
+  contentUrl,
+  isSpark = false,
+  quotedPostId,
+  publishAt,
+  pollClosesAt,
+  media = [],
+  pollOptions,
+  offer,
+}: CreatePostOptions): Promise<string> => {
+  const [linkUrl] = extractUrls(caption);
+  const hold = !publishAt && Boolean(linkUrl);
+
+  const { data: postId, error } = await supabase.rpc("create_post", {
+    p_caption: caption,
+    p_content_type: contentType,
+    p_content_url: contentUrl ?? undefined,
+    p_is_spark: isSpark,
+    p_quoted_post_id: quotedPostId,
+    p_publish_at: publishAt?.toISOString(),
+    p_hold: hold,
+    p_poll_closes_at: pollClosesAt ?? undefined,
+    p_media: media as unknown as Json,
+    p_poll_options: pollOptions,
+    p_offer: offer,
+  });
+
+  if (error) throw error;
+
+  // The post is written, so a missing preview isn't worth failing over
+  if (linkUrl) {
+    try {
+      await attachLinkPreview(postId, linkUrl);
+    } catch (previewError) {
+      console.error("Link preview error:", previewError);
+    }
+  }
+
+  if (hold) {
+    try {
+      await publishPost(postId);
+    } catch (publishError) {
+      // The scheduled job publishes held posts shortly after anyway
+      console.error("Error publishing post:", publishError);
+    }
+  }
+
+  return postId;
+};
+
+// Publish a post held back by createPost
+export const publishPost = async (postId: string) => {
+  const { error } = await supabase.rpc("publish_post", { p_post_id: postId });
+  if (error) throw error;
+};
+
+// Remove a post's files from storage, then the post itself (likes, comments
+// and notifications cascade)
+export const deletePost = async (post: FeedPost) => {
+  // The cover URL, every carousel item and any video posters
+  const urls = new Set(
+    [
+      post.content.url,
+      ...(post.content.media || []).flatMap((item) => [item.url, item.posterUrl]),
+    ].filter(Boolean) as string[]
+  );
+  for (const url of urls) {
+    const urlParts = url.split("/");
+    const bucket = urlParts[urlParts.length - 3]; // 'posts' or 'sparks'
+    const filePath = urlParts.slice(-2).join("/"); // 'user_id/filename'
+
+    await supabase.storage.from(bucket).remove([filePath]);
+  }
+
+  const { error } = await supabase.from("posts").delete().eq("id", post.id);
+  if (error) throw error;
+};
@@ -0,0 +1,5 @@
+// Must match public.extract_hashtags. The leading group keeps "a#b" and
+// HTML entities like "&#39;" from being read as tags.
+export const HASHTAG_PATTERN = /(^|[^A-Za-z0-9_&])#([A-Za-z0-9_]{1,50})(?![A-Za-z0-9_])/g;
+
+export const getTagPath = (tag: string) => `/tag/${encodeURIComponent(tag.toLowerCase())}`;
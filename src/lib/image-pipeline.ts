@@ -0,0 +1,121 @@
+// Shared processing for images before they are uploaded: decode, apply the
+// EXIF orientation, scale down and re-encode. Drawing through a canvas drops
+// all EXIF metadata, including GPS, from the uploaded file.
+
+export const MAX_IMAGE_DIMENSION = 2048;
+export const IMAGE_QUALITY = 0.82;
+
+// Animated or vector formats would lose what makes them special on a canvas
+const PASSTHROUGH_TYPES = ["image/gif", "image/svg+xml"];
+
+export interface ProcessImageOptions {
+  // Longest side of the output, in pixels
+  maxDimension?: number;
+  quality?: number;
+}
+
+export interface ProcessedImage {
+  file: File;
+  width: number;
+  height: number;
+}
+
+// Decoded pixels come out upright: createImageBitmap and <img> both honour
+// the EXIF orientation tag.
+const decodeImage = async (file: File): Promise<ImageBitmap | HTMLImageElement> => {
+  if ("createImageBitmap" in window) {
+    try {
+      return await createImageBitmap(file, { imageOrientation: "from-image" });
+    } catch {
+      // Fall through to <img>, which decodes a few formats bitmaps don't
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } catch {
+    throw new Error("This image format isn't supported");
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const getSize = (image: ImageBitmap | HTMLImageElement) =>
+  image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+
+export const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+const renameFile = (name: string, type: string) => {
+  const base = name.replace(/\.[^./]+$/, "") || "image";
+  return `${base}.${type === "image/webp" ? "webp" : "jpg"}`;
+};
+
+// Prefer WebP; browsers that can't encode it hand back a PNG, so use JPEG there
+const encode = async (canvas: HTMLCanvasElement, quality: number) => {
+  const webp = await toBlob(canvas, "image/webp", quality);
+  if (webp?.type === "image/webp") return webp;
+
+  // JPEG has no alpha; keep transparent areas white instead of black
+  const context = canvas.getContext("2d")!;
+  context.globalCompositeOperation = "destination-over";
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  const jpeg = await toBlob(canvas, "image/jpeg", quality);
+  if (!jpeg) throw new Error("Couldn't encode image");
+  return jpeg;
+};
+
+// Encode what is drawn on a canvas as an upload-ready file
+export const canvasToFile = async (canvas: HTMLCanvasElement, name: string, quality = IMAGE_QUALITY) => {
+  const blob = await encode(canvas, quality);
+  return new File([blob], renameFile(name, blob.type), { type: blob.type, lastModified: Date.now() });
+};
+
+// Read the size of an image without processing it
+export const readImageDimensions = async (file: File) => {
+  const image = await decodeImage(file);
+  const size = getSize(image);
+  if (image instanceof ImageBitmap) image.close();
+  return size;
+};
+
+export const processImage = async (
+  file: File,
+  { maxDimension = MAX_IMAGE_DIMENSION, quality = IMAGE_QUALITY }: ProcessImageOptions = {}
+): Promise<ProcessedImage> => {
+  if (PASSTHROUGH_TYPES.includes(file.type)) {
+    return { file, ...(await readImageDimensions(file)) };
+  }
+
+  const image = await decodeImage(file);
+  const original = getSize(image);
+  const { width, height } = fitWithin(original.width, original.height, maxDimension);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Couldn't process image");
+
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, 0, 0, width, height);
+  if (image instanceof ImageBitmap) image.close();
+
+  return { file: await canvasToFile(canvas, file.name, quality), width, height };
+};
@@ -0,0 +1,48 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  siteName?: string;
+}
+
+// Shape of get_feed_page's link_preview column and the edge function response
+interface LinkPreviewRow {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+export const toLinkPreview = (value: unknown): LinkPreview | undefined => {
+  const row = value as LinkPreviewRow | null;
+  if (!row) return undefined;
+
+  return {
+    url: row.url,
+    title: row.title || undefined,
+    description: row.description || undefined,
+    imageUrl: row.image_url || undefined,
+    siteName: row.site_name || undefined,
+  };
+};
+
+// Fetch a preview for the URL and store it against the post. The edge
+// function does both, so the table never takes previews from the client.
+export const attachLinkPreview = async (postId: string, url: string) => {
+  const { data, error } = await supabase.functions.invoke<LinkPreviewRow>("link-preview", {
+    body: { url, post_id: postId },
+  });
+
+  if (error) {
+    // 422 means the page was reachable but had nothing to show
+    if (error instanceof FunctionsHttpError && error.context.status === 422) return null;
+    throw error;
+  }
+
+  return toLinkPreview(data) ?? null;
+};
@@ -0,0 +1,6 @@
+// http(s) URLs in captions. The last character can't be closing punctuation,
+// so "see https://example.com." links just the address.
+export const URL_PATTERN = /https?:\/\/[^\s<>"']*[^\s<>"'.,;:!?)\]}]/g;
+
+// Distinct URLs in the order they appear
+export const extractUrls = (text: string) => Array.from(new Set(text.match(URL_PATTERN) || []));
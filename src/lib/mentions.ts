@@ -0,0 +1,14 @@
+// Must match public.extract_mentions. Handles may contain dots, but not at
+// the end, so "thanks @sam." mentions "sam".
+export const MENTION_PATTERN = /(^|[^A-Za-z0-9_.@])@([A-Za-z0-9_]+(?:\.[A-Za-z0-9_]+)*)/g;
+
+// The "@partial" being typed right before the caret, if any
+export const getMentionQuery = (text: string, caret: number): { query: string; start: number } | null => {
+  const match = /(^|[^A-Za-z0-9_.@])@([A-Za-z0-9_.]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+
+  return { query: match[2], start: match.index + match[1].length };
+};
+
+// Escape LIKE wildcards so handles containing "_" match literally
+export const escapeLikePattern = (value: string) => value.replace(/[%_\\]/g, "\\$&");
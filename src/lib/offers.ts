@@ -0,0 +1,81 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// profiles.account_type for accounts that can attach offers to posts
+export const BRAND_ACCOUNT_TYPE = "brand";
+
+export interface PostOffer {
+  id: string;
+  title: string;
+  expiresAt: string;
+  landingUrl: string;
+  claimsCount: number;
+  claimed: boolean;
+}
+
+// Offer being added in the composer
+export interface OfferDraft {
+  title: string;
+  code: string;
+  // yyyy-mm-dd from the date input; the offer runs to the end of that day
+  expiresOn: string;
+  landingUrl: string;
+}
+
+export const createOfferDraft = (): OfferDraft => ({
+  title: "",
+  code: "",
+  expiresOn: "",
+  landingUrl: "",
+});
+
+// Shape of get_feed_page's offer column
+interface FeedRowOffer {
+  id: string;
+  title: string;
+  expires_at: string;
+  landing_url: string;
+  claims_count: number;
+  viewer_has_claimed: boolean;
+}
+
+export const toPostOffer = (value: unknown): PostOffer | undefined => {
+  const offer = value as FeedRowOffer | null;
+  if (!offer) return undefined;
+
+  return {
+    id: offer.id,
+    title: offer.title,
+    expiresAt: offer.expires_at,
+    landingUrl: offer.landing_url,
+    claimsCount: offer.claims_count,
+    claimed: offer.viewer_has_claimed,
+  };
+};
+
+export const isOfferExpired = (offer: PostOffer) => new Date(offer.expiresAt).getTime() <= Date.now();
+
+// Problem with a draft worth showing the brand, or null when it's ready
+export const validateOfferDraft = (draft: OfferDraft): string | null => {
+  if (!draft.title.trim()) return "Give the offer a title";
+  if (!draft.code.trim()) return "Add the code customers will redeem";
+  if (!draft.expiresOn) return "Choose when the offer ends";
+  if (new Date(`${draft.expiresOn}T23:59:59`).getTime() <= Date.now()) return "The end date must be in the future";
+  if (!/^https?:\/\/\S+$/i.test(draft.landingUrl.trim())) return "The landing page must be a full http(s) URL";
+  return null;
+};
+
+// The offer as create_post stores it; it ends at the close of its last day
+export const toOfferInsert = (draft: OfferDraft) => ({
+  title: draft.title.trim(),
+  code: draft.code.trim(),
+  expires_at: new Date(`${draft.expiresOn}T23:59:59`).toISOString(),
+  landing_url: draft.landingUrl.trim(),
+});
+
+// Record a claim (once per user) and return the offer's code
+export const claimOffer = async (offerId: string) => {
+  const { data, error } = await supabase.rpc("claim_offer", { p_offer_id: offerId });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,34 @@
+import { supabase } from "@/integrations/supabase/client";
+import { fetchFeedPage, toFeedPost, type FeedPost } from "@/lib/feed";
+
+// Must match public.enforce_pinned_posts_limit
+export const MAX_PINNED_POSTS = 3;
+
+// A user's pinned posts in their chosen order
+export const fetchPinnedPosts = async (userId: string): Promise<FeedPost[]> => {
+  const { data: pins, error } = await supabase
+    .from("pinned_posts")
+    .select("post_id")
+    .eq("user_id", userId)
+    .order("position");
+
+  if (error) throw error;
+  if (!pins || pins.length === 0) return [];
+
+  const postIds = pins.map((pin) => pin.post_id);
+  const rows = await fetchFeedPage({ postIds, limit: postIds.length });
+  const posts = new Map(rows.map((row) => [row.id, toFeedPost(row)]));
+
+  // get_feed_page returns newest first; put them back in pin order
+  return postIds.map((id) => posts.get(id)).filter((post): post is FeedPost => !!post);
+};
+
+// Save a new order for all of the current user's pins
+export const reorderPinnedPosts = async (postIds: string[]) => {
+  const { error } = await supabase.rpc("reorder_pinned_posts", { p_post_ids: postIds });
+
+  if (error) throw error;
+};
+
+export const isPinLimitError = (error: unknown) =>
+  error instanceof Object && "message" in error && String(error.message).includes("pin up to");
@@ -0,0 +1,92 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const POLL_MIN_OPTIONS = 2;
+export const POLL_MAX_OPTIONS = 4;
+export const POLL_OPTION_MAX_LENGTH = 80;
+
+// Durations offered in the composer
+export const POLL_DURATIONS = [
+  { label: "1 day", hours: 24 },
+  { label: "3 days", hours: 72 },
+  { label: "7 days", hours: 168 },
+] as const;
+
+// Poll being built in the composer
+export interface PollDraft {
+  options: string[];
+  hours: number;
+}
+
+export const createPollDraft = (): PollDraft => ({
+  options: Array(POLL_MIN_OPTIONS).fill(""),
+  hours: POLL_DURATIONS[0].hours,
+});
+
+export interface PollOption {
+  id: string;
+  label: string;
+  votes: number;
+}
+
+export interface PostPoll {
+  closesAt: string;
+  options: PollOption[];
+  // Option the viewer voted for, if any
+  viewerOptionId?: string;
+}
+
+// Shape of get_feed_page's poll column
+interface FeedRowPoll {
+  closes_at: string;
+  options: PollOption[];
+  viewer_option_id: string | null;
+}
+
+export const toPostPoll = (value: unknown): PostPoll | undefined => {
+  const poll = value as FeedRowPoll | null;
+  if (!poll) return undefined;
+
+  return {
+    closesAt: poll.closes_at,
+    options: poll.options,
+    viewerOptionId: poll.viewer_option_id || undefined,
+  };
+};
+
+export const isPollClosed = (poll: PostPoll) => new Date(poll.closesAt).getTime() <= Date.now();
+
+export const getPollTotal = (poll: PostPoll) =>
+  poll.options.reduce((total, option) => total + option.votes, 0);
+
+// Whole-number percentage of the total for one option
+export const getPollPercentage = (votes: number, total: number) =>
+  total === 0 ? 0 : Math.round((votes / total) * 100);
+
+// "2d left", "5h left", "12m left" until the poll closes
+export const getPollTimeLeft = (poll: PostPoll) => {
+  const minutes = Math.ceil((new Date(poll.closesAt).getTime() - Date.now()) / 60000);
+  if (minutes >= 60 * 24) return `${Math.floor(minutes / (60 * 24))}d left`;
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h left`;
+  return `${Math.max(minutes, 1)}m left`;
+};
+
+// Polls run from when the post goes live, which is later for scheduled posts
+export const getPollClosesAt = (hours: number, opensAt = new Date()) =>
+  new Date(opensAt.getTime() + hours * 60 * 60 * 1000).toISOString();
+
+// Add the options for a newly created poll post, in the given order
+export const castPollVote = async ({
+  postId,
+  optionId,
+  userId,
+}: {
+  postId: string;
+  optionId: string;
+  userId: string;
+}) => {
+  const { error } = await supabase
+    .from("poll_votes")
+    .insert({ post_id: postId, option_id: optionId, user_id: userId });
+
+  if (error) throw error;
+};
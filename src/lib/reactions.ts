@@ -0,0 +1,25 @@
+// Allowed reactions, in picker order. Must match the CHECK on reactions.emoji.
+export const REACTION_EMOJIS = ["❤️", "😂", "🔥", "😮", "😢", "👏"] as const;
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+
+// Reaction totals for a post, keyed by emoji
+export type ReactionCounts = Partial<Record<ReactionEmoji, number>>;
+
+export const isReactionEmoji = (value: string): value is ReactionEmoji =>
+  (REACTION_EMOJIS as readonly string[]).includes(value);
+
+// Most used reactions first; ties keep picker order
+export const getTopReactions = (counts: ReactionCounts, limit = 3): ReactionEmoji[] =>
+  REACTION_EMOJIS.filter((emoji) => (counts[emoji] || 0) > 0)
+    .sort((a, b) => (counts[b] || 0) - (counts[a] || 0))
+    .slice(0, limit);
+
+export const getReactionTotal = (counts: ReactionCounts) =>
+  REACTION_EMOJIS.reduce((total, emoji) => total + (counts[emoji] || 0), 0);
+
+// Apply one realtime insert (+1) or delete (-1) to a set of counts
+export const adjustReactionCount = (counts: ReactionCounts, emoji: ReactionEmoji, delta: number): ReactionCounts => ({
+  ...counts,
+  [emoji]: Math.max((counts[emoji] || 0) + delta, 0),
+});
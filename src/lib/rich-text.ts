@@ -0,0 +1,70 @@
+import { HASHTAG_PATTERN } from "@/lib/hashtags";
+import { URL_PATTERN } from "@/lib/links";
+import { MENTION_PATTERN } from "@/lib/mentions";
+
+export type RichTextPart =
+  | { type: "text"; value: string }
+  | { type: "hashtag"; value: string; tag: string }
+  | { type: "mention"; value: string; handle: string }
+  | { type: "link"; value: string; url: string };
+
+interface Token {
+  start: number;
+  end: number;
+  part: RichTextPart;
+}
+
+// Split captions and comments into plain text, #tag, @mention and link parts
+export const parseRichText = (text: string): RichTextPart[] => {
+  const tokens: Token[] = [];
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const [url] = match;
+    tokens.push({
+      start: match.index!,
+      end: match.index! + url.length,
+      part: { type: "link", value: url, url },
+    });
+  }
+
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const [, prefix, tag] = match;
+    const start = match.index! + prefix.length;
+    tokens.push({
+      start,
+      end: start + tag.length + 1,
+      part: { type: "hashtag", value: `#${tag}`, tag: tag.toLowerCase() },
+    });
+  }
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const [, prefix, handle] = match;
+    const start = match.index! + prefix.length;
+    tokens.push({
+      start,
+      end: start + handle.length + 1,
+      part: { type: "mention", value: `@${handle}`, handle },
+    });
+  }
+
+  tokens.sort((a, b) => a.start - b.start);
+
+  const parts: RichTextPart[] = [];
+  let lastIndex = 0;
+  for (const token of tokens) {
+    // Tags and mentions inside a URL (".../#section", ".../@user") belong to the link
+    if (token.start < lastIndex) continue;
+
+    if (token.start > lastIndex) {
+      parts.push({ type: "text", value: text.slice(lastIndex, token.start) });
+    }
+    parts.push(token.part);
+    lastIndex = token.end;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ type: "text", value: text.slice(lastIndex) });
+  }
+
+  return parts;
+};
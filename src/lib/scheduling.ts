@@ -0,0 +1,76 @@
+import { format, isSameDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchFeedPage, toFeedPost, type FeedPost } from "@/lib/feed";
+
+// The publish job runs every minute, so anything sooner is just "now"
+export const MIN_SCHEDULE_MINUTES = 5;
+
+export interface ScheduledPost {
+  post: FeedPost;
+  publishAt: string;
+}
+
+// "HH:mm" for a time input
+export const toTimeValue = (date: Date) => format(date, "HH:mm");
+
+// The given day at the time from a time input, in local time
+export const combineDateAndTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const date = new Date(day);
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date;
+};
+
+// Where the picker starts: the top of the hour, at least an hour out
+export const getDefaultPublishAt = () => {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setMinutes(0, 0, 0);
+  return date;
+};
+
+// Returns an error message, or null if the time can be used
+export const validatePublishAt = (publishAt: Date) => {
+  if (Number.isNaN(publishAt.getTime())) return "Pick a date and time";
+  if (publishAt.getTime() < Date.now() + MIN_SCHEDULE_MINUTES * 60 * 1000) {
+    return `Pick a time at least ${MIN_SCHEDULE_MINUTES} minutes from now`;
+  }
+  return null;
+};
+
+// Reads after "Publishes", e.g. "today at 3:00 PM" or "Fri, Oct 24 at 9:00 AM"
+export const formatPublishAt = (publishAt: Date | string) => {
+  const date = new Date(publishAt);
+  return isSameDay(date, new Date())
+    ? `today at ${format(date, "h:mm a")}`
+    : format(date, "EEE, MMM d 'at' h:mm a");
+};
+
+// The current user's queued posts and sparks, soonest first
+export const fetchScheduledPosts = async (userId: string): Promise<ScheduledPost[]> => {
+  const { data: scheduled, error } = await supabase
+    .from("posts")
+    .select("id, publish_at")
+    .eq("user_id", userId)
+    .eq("is_published", false)
+    .order("publish_at");
+
+  if (error) throw error;
+  if (!scheduled || scheduled.length === 0) return [];
+
+  const postIds = scheduled.map((row) => row.id);
+  const rows = await fetchFeedPage({ postIds, limit: postIds.length });
+  const posts = new Map(rows.map((row) => [row.id, toFeedPost(row)]));
+
+  return scheduled
+    .filter((row) => posts.has(row.id) && row.publish_at)
+    .map((row) => ({ post: posts.get(row.id)!, publishAt: row.publish_at! }));
+};
+
+export const reschedulePost = async (postId: string, publishAt: Date) => {
+  const { error } = await supabase.rpc("reschedule_post", {
+    p_post_id: postId,
+    p_publish_at: publishAt.toISOString(),
+  });
+
+  if (error) throw error;
+};
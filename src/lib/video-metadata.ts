@@ -0,0 +1,77 @@
+import { canvasToFile, fitWithin } from "@/lib/image-pipeline";
+
+// Posters only stand in for the video until it plays
+export const POSTER_MAX_DIMENSION = 1080;
+
+// How far in to take the poster frame; the very first frame is often black
+const POSTER_FRAME_SECONDS = 0.5;
+const LOAD_TIMEOUT_MS = 15000;
+
+export interface VideoMetadata {
+  width: number;
+  height: number;
+  // Seconds
+  duration: number;
+  poster: File | null;
+}
+
+const waitFor = (video: HTMLVideoElement, event: "loadeddata" | "seeked") =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => done(new Error("Timed out reading video")), LOAD_TIMEOUT_MS);
+    const onEvent = () => done();
+    const onError = () => done(new Error("This video format isn't supported"));
+    const done = (error?: Error) => {
+      clearTimeout(timer);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener("error", onError);
+      if (error) reject(error);
+      else resolve();
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener("error", onError);
+  });
+
+const capturePoster = async (video: HTMLVideoElement, name: string) => {
+  const { width, height } = fitWithin(video.videoWidth, video.videoHeight, POSTER_MAX_DIMENSION);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+
+  context.drawImage(video, 0, 0, width, height);
+  return canvasToFile(canvas, `${name.replace(/\.[^./]+$/, "")}-poster`);
+};
+
+// Size, length and a poster frame for a picked video. Only a missing size or
+// length is an error; a video is still usable without a poster.
+export const extractVideoMetadata = async (file: File): Promise<VideoMetadata> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.preload = "auto";
+  video.muted = true;
+  video.playsInline = true;
+
+  try {
+    const loaded = waitFor(video, "loadeddata");
+    video.src = url;
+    await loaded;
+
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    let poster: File | null = null;
+    try {
+      const seeked = waitFor(video, "seeked");
+      video.currentTime = Math.min(POSTER_FRAME_SECONDS, duration / 2);
+      await seeked;
+      poster = await capturePoster(video, file.name);
+    } catch (error) {
+      console.error("Error capturing poster frame:", error);
+    }
+
+    return { width: video.videoWidth, height: video.videoHeight, duration, poster };
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
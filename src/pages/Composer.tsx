@@ -1,11 +1,80 @@
-import { useState } from "react";
-import { ArrowLeft, Camera, Image as ImageIcon, Video, Loader2 } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { ArrowLeft, Camera, Image as ImageIcon, Video, Loader2, ChevronLeft, ChevronRight, X, Plus, ListChecks, Gift, CalendarClock, FileText } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { MentionInput } from "@/components/mentions/MentionInput";
+import { PollBuilder } from "@/components/polls/PollBuilder";
+import { OfferBuilder } from "@/components/offers/OfferBuilder";
+import { SchedulePicker } from "@/components/scheduling/SchedulePicker";
+import { SaveDraftDialog } from "@/components/drafts/SaveDraftDialog";
+import { useDraft } from "@/hooks/use-draft";
+import { fetchDraft, loadDraftFile } from "@/lib/drafts";
+import { createPost } from "@/lib/feed";
+import {
+  POLL_MIN_OPTIONS,
+  createPollDraft,
+  getPollClosesAt,
+  type PollDraft,
+} from "@/lib/polls";
+import {
+  BRAND_ACCOUNT_TYPE,
+  createOfferDraft,
+  toOfferInsert,
+  validateOfferDraft,
+  type OfferDraft,
+} from "@/lib/offers";
+import { formatPublishAt, getDefaultPublishAt, validatePublishAt } from "@/lib/scheduling";
+import { processImage } from "@/lib/image-pipeline";
+import { extractVideoMetadata } from "@/lib/video-metadata";
+
+const MAX_MEDIA = 10;
+const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+interface MediaDraft {
+  id: string;
+  file: File;
+  previewUrl: string;
+  type: "image" | "video";
+  width?: number;
+  height?: number;
+  // Videos only
+  duration?: number;
+  poster?: File;
+}
+
+// Videos the browser can't read still upload, just without metadata
+const readVideoMetadata = async (file: File): Promise<Pick<MediaDraft, "width" | "height" | "duration" | "poster">> => {
+  try {
+    const { width, height, duration, poster } = await extractVideoMetadata(file);
+    return { width, height, duration, poster: poster ?? undefined };
+  } catch (error) {
+    console.error("Error reading video metadata:", error);
+    return {};
+  }
+};
+
+// Images are resized and stripped of metadata as they are picked, so previews,
+// drafts and the final upload all use the processed file
+const toMediaDraft = async (file: File): Promise<MediaDraft> => {
+  if (file.type.startsWith("video/")) {
+    const metadata = await readVideoMetadata(file);
+    return { id: crypto.randomUUID(), file, previewUrl: URL.createObjectURL(file), type: "video", ...metadata };
+  }
+
+  const processed = await processImage(file);
+  return {
+    id: crypto.randomUUID(),
+    file: processed.file,
+    previewUrl: URL.createObjectURL(processed.file),
+    type: "image",
+    width: processed.width,
+    height: processed.height,
+  };
+};
 
 export const Composer = () => {
   const navigate = useNavigate();
@@ -15,56 +84,288 @@ export const Composer = () => {
   
   const [postType, setPostType] = useState<"post" | "spark">(initialType);
   const [caption, setCaption] = useState("");
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string>("");
+  const [media, setMedia] = useState<MediaDraft[]>([]);
+  const [poll, setPoll] = useState<PollDraft | null>(null);
+  const [isBrand, setIsBrand] = useState(false);
+  const [offer, setOffer] = useState<OfferDraft | null>(null);
+  // Set when the post should be queued instead of published right away
+  const [publishAt, setPublishAt] = useState<Date | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [loadingDraft, setLoadingDraft] = useState(false);
+  // Where to go once the save-or-discard question is answered
+  const [pendingLeave, setPendingLeave] = useState<(() => void) | null>(null);
+  const [leaving, setLeaving] = useState(false);
+  const draft = useDraft(
+    { kind: postType, caption, media, poll, offer },
+    { enabled: !uploading && !loadingDraft }
+  );
+  const mediaRef = useRef<MediaDraft[]>([]);
+  mediaRef.current = media;
+
+  const maxItems = postType === "spark" ? 1 : MAX_MEDIA;
+  const pollOptions = poll ? poll.options.map((option) => option.trim()).filter(Boolean) : [];
+  const canPublish = poll
+    ? !!caption.trim() && pollOptions.length >= POLL_MIN_OPTIONS
+    : !!caption.trim() || media.length > 0;
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  useEffect(() => {
+    loadAccountType();
+
+    const draftId = searchParams.get("draft");
+    if (draftId) {
+      loadDraft(draftId);
+    }
+  }, []);
+
+  // Release preview object URLs when leaving the composer
+  useEffect(() => {
+    return () => {
+      mediaRef.current.forEach((item) => URL.revokeObjectURL(item.previewUrl));
+    };
+  }, []);
+
+  // Only brand accounts can attach offers
+  const loadAccountType = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data } = await supabase
+      .from("profiles")
+      .select("account_type")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    setIsBrand(data?.account_type === BRAND_ACCOUNT_TYPE);
+  };
+
+  // Pick up a draft saved here or on another device
+  const loadDraft = async (draftId: string) => {
+    setLoadingDraft(true);
+    try {
+      const saved = await fetchDraft(draftId);
+      if (!saved || saved.kind === "story") {
+        toast({
+          title: "Draft not found",
+          description: "It may have been published or discarded",
+          variant: "destructive",
+        });
+        return;
+      }
 
-    const isVideo = file.type.startsWith("video/");
-    const isImage = file.type.startsWith("image/");
+      const files = await Promise.all(saved.media.map(loadDraftFile));
+      // Drafts keep only the files; posters are taken again
+      const restoredMedia: MediaDraft[] = await Promise.all(
+        saved.media.map(async (item, index) => ({
+          id: crypto.randomUUID(),
+          file: files[index],
+          previewUrl: URL.createObjectURL(files[index]),
+          type: item.type,
+          width: item.width,
+          height: item.height,
+          ...(item.type === "video" ? await readVideoMetadata(files[index]) : {}),
+        }))
+      );
 
-    if (postType === "spark" && !isVideo) {
+      setPostType(saved.kind);
+      setCaption(saved.caption);
+      setMedia(restoredMedia);
+      setPoll(saved.poll ?? null);
+      setOffer(saved.offer ?? null);
+      draft.resume(saved, {
+        kind: saved.kind,
+        caption: saved.caption,
+        media: restoredMedia,
+        poll: saved.poll ?? null,
+        offer: saved.offer ?? null,
+      });
+    } catch (error) {
+      console.error("Error loading draft:", error);
       toast({
-        title: "Invalid file",
-        description: "Sparks must be video files",
+        title: "Error",
+        description: "Failed to load draft",
         variant: "destructive",
       });
-      return;
+    } finally {
+      setLoadingDraft(false);
     }
+  };
 
-    if (postType === "post" && !isImage) {
+  // Ask before leaving with unpublished work; autosave may not have caught up
+  const leave = (go: () => void) => {
+    if (draft.hasContent) {
+      setPendingLeave(() => go);
+    } else {
+      go();
+    }
+  };
+
+  const handleLeaveChoice = async (keep: boolean) => {
+    if (!pendingLeave) return;
+
+    setLeaving(true);
+    try {
+      if (keep) {
+        await draft.save();
+        toast({
+          title: "Draft saved",
+          description: "Find it in your drafts to finish later",
+        });
+      } else {
+        await draft.discard();
+      }
+      const go = pendingLeave;
+      setPendingLeave(null);
+      go();
+    } catch (error) {
+      console.error("Error updating draft:", error);
       toast({
-        title: "Invalid file",
-        description: "Posts must be image files",
+        title: "Error",
+        description: keep ? "Failed to save draft" : "Failed to discard draft",
         variant: "destructive",
       });
-      return;
+    } finally {
+      setLeaving(false);
     }
+  };
+
+  const clearMedia = () => {
+    media.forEach((item) => URL.revokeObjectURL(item.previewUrl));
+    setMedia([]);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Allow picking the same file again after removing it
+    e.target.value = "";
+    if (files.length === 0) return;
 
-    // Check file size (50MB limit for videos, 10MB for images)
-    const maxSize = postType === "spark" ? 50 * 1024 * 1024 : 10 * 1024 * 1024;
-    if (file.size > maxSize) {
+    const remaining = maxItems - media.length;
+    if (files.length > remaining) {
       toast({
-        title: "File too large",
-        description: `${postType === "spark" ? "Videos" : "Images"} must be under ${postType === "spark" ? "50MB" : "10MB"}`,
+        title: "Too many files",
+        description: postType === "spark"
+          ? "A spark can only have one video"
+          : `You can add up to ${MAX_MEDIA} photos or videos`,
         variant: "destructive",
       });
-      return;
     }
 
-    setSelectedFile(file);
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setPreviewUrl(reader.result as string);
-    };
-    reader.readAsDataURL(file);
+    const accepted: File[] = [];
+    for (const file of files.slice(0, Math.max(remaining, 0))) {
+      const isVideo = file.type.startsWith("video/");
+      const isImage = file.type.startsWith("image/");
+
+      if (postType === "spark" && !isVideo) {
+        toast({
+          title: "Invalid file",
+          description: "Sparks must be video files",
+          variant: "destructive",
+        });
+        continue;
+      }
+
+      if (postType === "post" && !isImage && !isVideo) {
+        toast({
+          title: "Invalid file",
+          description: "Posts must be image or video files",
+          variant: "destructive",
+        });
+        continue;
+      }
+
+      // Videos are uploaded as picked, so check them now (50MB limit)
+      if (isVideo && file.size > MAX_VIDEO_BYTES) {
+        toast({
+          title: "File too large",
+          description: "Videos must be under 50MB",
+          variant: "destructive",
+        });
+        continue;
+      }
+
+      accepted.push(file);
+    }
+
+    setProcessing(true);
+    const drafts: MediaDraft[] = [];
+    // One at a time; decoding several full-size photos at once can exhaust memory
+    for (const file of accepted) {
+      try {
+        const draft = await toMediaDraft(file);
+        // Images count against the 10MB limit once processed, not as picked
+        if (draft.type === "image" && draft.file.size > MAX_IMAGE_BYTES) {
+          URL.revokeObjectURL(draft.previewUrl);
+          toast({
+            title: "File too large",
+            description: "Images must be under 10MB",
+            variant: "destructive",
+          });
+          continue;
+        }
+        drafts.push(draft);
+      } catch (error) {
+        console.error("Error processing media:", error);
+        toast({
+          title: "Couldn't add file",
+          description: `${file.name} could not be processed`,
+          variant: "destructive",
+        });
+      }
+    }
+    setProcessing(false);
+
+    setMedia((current) => [...current, ...drafts].slice(0, maxItems));
+  };
+
+  const removeMedia = (id: string) => {
+    setMedia((current) => {
+      const item = current.find((m) => m.id === id);
+      if (item) URL.revokeObjectURL(item.previewUrl);
+      return current.filter((m) => m.id !== id);
+    });
+  };
+
+  const moveMedia = (index: number, direction: -1 | 1) => {
+    setMedia((current) => {
+      const target = index + direction;
+      if (target < 0 || target >= current.length) return current;
+
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
   };
 
   const handlePublish = async () => {
-    if (!caption.trim() && !selectedFile) {
+    if (poll) {
+      if (!caption.trim()) {
+        toast({
+          title: "Question required",
+          description: "Write your poll question in the caption",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (pollOptions.length < POLL_MIN_OPTIONS) {
+        toast({
+          title: "Not enough options",
+          description: `Polls need at least ${POLL_MIN_OPTIONS} options`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (new Set(pollOptions.map((option) => option.toLowerCase())).size !== pollOptions.length) {
+        toast({
+          title: "Duplicate options",
+          description: "Each poll option must be different",
+          variant: "destructive",
+        });
+        return;
+      }
+    } else if (!caption.trim() && media.length === 0) {
       toast({
         title: "Empty content",
         description: `Please add some content or ${postType === "spark" ? "a video" : "an image"}`,
@@ -73,7 +374,17 @@ export const Composer = () => {
       return;
     }
 
-    if (postType === "spark" && !selectedFile) {
+    const offerError = offer && validateOfferDraft(offer);
+    if (offerError) {
+      toast({
+        title: "Offer incomplete",
+        description: offerError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (postType === "spark" && media.length === 0) {
       toast({
         title: "Video required",
         description: "Sparks must include a video",
@@ -82,6 +393,16 @@ export const Composer = () => {
       return;
     }
 
+    const scheduleError = publishAt && validatePublishAt(publishAt);
+    if (scheduleError) {
+      toast({
+        title: "Check the schedule",
+        description: scheduleError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setUploading(true);
 
     try {
@@ -96,62 +417,103 @@ export const Composer = () => {
         return;
       }
 
-      let fileUrl = null;
+      const bucket = postType === "spark" ? "sparks" : "posts";
+      const uploadedPaths: string[] = [];
+      // Poster frames, by media index
+      const posterPaths = new Map<number, string>();
+      const storedPaths = () => [...uploadedPaths, ...posterPaths.values()];
 
-      // Upload file if selected
-      if (selectedFile) {
-        const fileExt = selectedFile.name.split(".").pop();
-        const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-        const bucket = postType === "spark" ? "sparks" : "posts";
+      // Upload files in their chosen order
+      try {
+        for (const [index, item] of media.entries()) {
+          const fileExt = item.file.name.split(".").pop();
+          const fileName = `${user.id}/${Date.now()}-${index}.${fileExt}`;
 
-        console.log(`Uploading to bucket: ${bucket}, fileName: ${fileName}`);
-        const { error: uploadError } = await supabase.storage
-          .from(bucket)
-          .upload(fileName, selectedFile);
+          console.log(`Uploading to bucket: ${bucket}, fileName: ${fileName}`);
+          const { error: uploadError } = await supabase.storage
+            .from(bucket)
+            .upload(fileName, item.file);
 
-        if (uploadError) {
-          console.error("Storage upload error:", uploadError);
-          throw uploadError;
-        }
+          if (uploadError) {
+            console.error("Storage upload error:", uploadError);
+            throw uploadError;
+          }
+
+          uploadedPaths.push(fileName);
 
-        const { data: { publicUrl } } = supabase.storage
-          .from(bucket)
-          .getPublicUrl(fileName);
+          if (item.poster) {
+            const posterExt = item.poster.name.split(".").pop();
+            const posterName = `${user.id}/${Date.now()}-${index}-poster.${posterExt}`;
+            const { error: posterError } = await supabase.storage
+              .from(bucket)
+              .upload(posterName, item.poster);
 
-        fileUrl = publicUrl;
-        console.log("File uploaded successfully, URL:", fileUrl);
+            // A missing poster only costs the preview; the video still plays
+            if (posterError) {
+              console.error("Poster upload error:", posterError);
+            } else {
+              posterPaths.set(index, posterName);
+            }
+          }
+        }
+      } catch (error) {
+        if (uploadedPaths.length > 0) {
+          await supabase.storage.from(bucket).remove(storedPaths());
+        }
+        throw error;
       }
 
-      // Create post/spark
-      console.log("Creating post with:", { user_id: user.id, content_type: postType === "spark" ? "video" : (fileUrl ? "image" : "text"), is_spark: postType === "spark" });
-      const { data: newPost, error: postError } = await supabase
-        .from("posts")
-        .insert({
-          user_id: user.id,
-          content_type: postType === "spark" ? "video" : (fileUrl ? "image" : "text"),
-          content_url: fileUrl,
-          caption: caption.trim(),
-          is_spark: postType === "spark",
-        })
-        .select()
-        .single();
+      // The first item doubles as the post's cover for single-media consumers
+      const cover = media[0];
+      const coverUrl = cover
+        ? supabase.storage.from(bucket).getPublicUrl(uploadedPaths[0]).data.publicUrl
+        : null;
 
-      if (postError) {
+      // Create the post/spark with its media, poll and offer in one go
+      try {
+        await createPost({
+          caption: caption.trim(),
+          contentType: poll ? "poll" : cover ? cover.type : "text",
+          contentUrl: coverUrl,
+          isSpark: postType === "spark",
+          publishAt,
+          pollClosesAt: poll ? getPollClosesAt(poll.hours, publishAt ?? undefined) : null,
+          media: media.map((item, index) => ({
+            media_type: item.type,
+            storage_path: uploadedPaths[index],
+            width: item.width,
+            height: item.height,
+            poster_path: posterPaths.get(index) ?? null,
+            duration_seconds: item.duration ?? null,
+          })),
+          pollOptions: poll ? pollOptions : undefined,
+          offer: offer ? toOfferInsert(offer) : undefined,
+        });
+      } catch (postError) {
         console.error("Database insert error:", postError);
+        // Nothing was written, so don't leave the uploads behind either
+        if (uploadedPaths.length > 0) {
+          await supabase.storage.from(bucket).remove(storedPaths());
+        }
         throw postError;
       }
 
-      // Create self-notification for published post
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: user.id,
-          type: 'post',
-          title: 'Post Published',
-          message: `Your ${postType === "spark" ? "spark" : "post"} has been published successfully!`,
-          actor_id: user.id,
-          post_id: newPost.id
+      // The draft has served its purpose; a leftover one isn't worth failing over
+      try {
+        await draft.discard();
+      } catch (draftError) {
+        console.error("Error removing draft:", draftError);
+      }
+
+      // The "Post Published" notification comes from the database once it's live
+      if (publishAt) {
+        toast({
+          title: "Scheduled",
+          description: `Your ${postType} publishes ${formatPublishAt(publishAt)}`,
         });
+        navigate("/scheduled");
+        return;
+      }
 
       toast({
         title: "Success",
@@ -176,22 +538,53 @@ export const Composer = () => {
     <div className="min-h-screen bg-background pb-20">
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-border">
-        <Button variant="ghost" size="icon" onClick={() => navigate(-1)} disabled={uploading}>
+        <Button variant="ghost" size="icon" onClick={() => leave(() => navigate(-1))} disabled={uploading}>
           <ArrowLeft className="h-5 w-5" />
         </Button>
         <h1 className="font-bold text-lg">Create {postType === "spark" ? "Spark" : "Post"}</h1>
-        <Button 
-          onClick={handlePublish}
-          disabled={uploading || (!caption.trim() && !selectedFile)}
-          className="text-sm font-semibold"
-        >
-          {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Publish"}
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => leave(() => navigate("/drafts"))}
+            disabled={uploading}
+            aria-label="Drafts"
+          >
+            <FileText className="h-5 w-5" />
+          </Button>
+          <Button 
+            onClick={handlePublish}
+            disabled={uploading || processing || loadingDraft || !canPublish}
+            className="text-sm font-semibold"
+          >
+            {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : publishAt ? "Schedule" : "Publish"}
+          </Button>
+        </div>
       </div>
 
+      <SaveDraftDialog
+        open={!!pendingLeave}
+        onOpenChange={(open) => !open && setPendingLeave(null)}
+        onSave={() => handleLeaveChoice(true)}
+        onDiscard={() => handleLeaveChoice(false)}
+        busy={leaving}
+      />
+
+      {loadingDraft && (
+        <div className="flex items-center justify-center gap-2 py-3 text-sm text-muted-foreground border-b border-border">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading draft...
+        </div>
+      )}
+
       <div className="p-4 space-y-6">
         {/* Type Selector */}
-        <Tabs value={postType} onValueChange={(v) => setPostType(v as "post" | "spark")}>
+        <Tabs value={postType} onValueChange={(v) => {
+            setPostType(v as "post" | "spark");
+            clearMedia();
+            setPoll(null);
+            setOffer(null);
+          }}>
           <TabsList className="w-full">
             <TabsTrigger value="post" className="flex-1">Post</TabsTrigger>
             <TabsTrigger value="spark" className="flex-1">Spark (Video)</TabsTrigger>
@@ -199,107 +592,233 @@ export const Composer = () => {
         </Tabs>
 
         {/* Media Upload */}
-        <div>
-          <h3 className="font-medium mb-3">
-            {postType === "spark" ? "Add Video (Required)" : "Add Image (Optional)"}
-          </h3>
-          
-          {previewUrl ? (
-            <div className="relative">
-              {postType === "spark" ? (
+        {poll ? (
+          <PollBuilder value={poll} onChange={setPoll} onRemove={() => setPoll(null)} disabled={uploading} />
+        ) : (
+          <div>
+            <h3 className="font-medium mb-3">
+              {postType === "spark" ? "Add Video (Required)" : "Add Photos or Videos (Optional)"}
+              {postType === "post" && media.length > 0 && (
+                <span className="ml-2 text-xs text-muted-foreground font-normal">
+                  {media.length}/{MAX_MEDIA}
+                </span>
+              )}
+              {processing && (
+                <span className="ml-2 inline-flex items-center gap-1 text-xs text-muted-foreground font-normal">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Preparing...
+                </span>
+              )}
+            </h3>
+            
+            {postType === "spark" && media[0] ? (
+              <div className="relative">
                 <video 
-                  src={previewUrl} 
+                  src={media[0].previewUrl} 
                   controls
                   className="w-full aspect-[9/16] object-cover rounded-2xl max-w-sm mx-auto"
                 />
-              ) : (
-                <img 
-                  src={previewUrl} 
-                  alt="Preview" 
-                  className="w-full aspect-square object-cover rounded-2xl"
-                />
-              )}
-              <Button
-                variant="destructive"
-                size="sm"
-                onClick={() => {
-                  setSelectedFile(null);
-                  setPreviewUrl("");
-                }}
-                className="absolute top-2 right-2"
-                disabled={uploading}
-              >
-                Remove
-              </Button>
-            </div>
-          ) : (
-            <div className="grid grid-cols-2 gap-3">
-              <label className="cursor-pointer">
-                <div className="aspect-square bg-muted rounded-2xl flex flex-col items-center justify-center border-2 border-dashed border-border hover:border-primary transition-colors">
-                  {postType === "spark" ? (
-                    <>
-                      <Video className="h-8 w-8 text-muted-foreground mb-2" />
-                      <span className="text-xs text-muted-foreground">Record Video</span>
-                    </>
-                  ) : (
-                    <>
-                      <Camera className="h-8 w-8 text-muted-foreground mb-2" />
-                      <span className="text-xs text-muted-foreground">Take Photo</span>
-                    </>
-                  )}
-                </div>
-                <input
-                  type="file"
-                  accept={postType === "spark" ? "video/*" : "image/*"}
-                  capture="environment"
-                  onChange={handleFileSelect}
-                  className="hidden"
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={clearMedia}
+                  className="absolute top-2 right-2"
                   disabled={uploading}
-                />
-              </label>
-              
-              <label className="cursor-pointer">
-                <div className="aspect-square bg-muted rounded-2xl flex flex-col items-center justify-center border-2 border-dashed border-border hover:border-primary transition-colors">
-                  {postType === "spark" ? (
-                    <>
-                      <Video className="h-8 w-8 text-muted-foreground mb-2" />
-                      <span className="text-xs text-muted-foreground">Gallery</span>
-                    </>
-                  ) : (
-                    <>
-                      <ImageIcon className="h-8 w-8 text-muted-foreground mb-2" />
-                      <span className="text-xs text-muted-foreground">Gallery</span>
-                    </>
-                  )}
-                </div>
-                <input
-                  type="file"
-                  accept={postType === "spark" ? "video/*" : "image/*"}
-                  onChange={handleFileSelect}
-                  className="hidden"
-                  disabled={uploading}
-                />
-              </label>
+                >
+                  Remove
+                </Button>
+              </div>
+            ) : media.length > 0 ? (
+              <div className="grid grid-cols-3 gap-2">
+                {media.map((item, index) => (
+                  <div key={item.id} className="relative aspect-square rounded-xl overflow-hidden bg-muted">
+                    {item.type === "video" ? (
+                      <video src={item.previewUrl} className="w-full h-full object-cover" muted playsInline />
+                    ) : (
+                      <img src={item.previewUrl} alt={`Selected ${index + 1}`} className="w-full h-full object-cover" />
+                    )}
+                    <span className="absolute top-1 left-1 w-5 h-5 rounded-full bg-black/60 text-white text-[10px] font-semibold flex items-center justify-center">
+                      {index + 1}
+                    </span>
+                    <button
+                      onClick={() => removeMedia(item.id)}
+                      disabled={uploading}
+                      aria-label="Remove"
+                      className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/60 text-white flex items-center justify-center"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                    {media.length > 1 && (
+                      <div className="absolute bottom-1 inset-x-1 flex justify-between">
+                        <button
+                          onClick={() => moveMedia(index, -1)}
+                          disabled={uploading || index === 0}
+                          aria-label="Move earlier"
+                          className="w-6 h-6 rounded-full bg-black/60 text-white flex items-center justify-center disabled:opacity-30"
+                        >
+                          <ChevronLeft className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => moveMedia(index, 1)}
+                          disabled={uploading || index === media.length - 1}
+                          aria-label="Move later"
+                          className="w-6 h-6 rounded-full bg-black/60 text-white flex items-center justify-center disabled:opacity-30"
+                        >
+                          <ChevronRight className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+                {media.length < MAX_MEDIA && (
+                  <label className="cursor-pointer">
+                    <div className="aspect-square bg-muted rounded-xl flex flex-col items-center justify-center border-2 border-dashed border-border hover:border-primary transition-colors">
+                      <Plus className="h-6 w-6 text-muted-foreground mb-1" />
+                      <span className="text-xs text-muted-foreground">Add more</span>
+                    </div>
+                    <input
+                      type="file"
+                      accept="image/*,video/*"
+                      multiple
+                      onChange={handleFileSelect}
+                      className="hidden"
+                      disabled={uploading || processing}
+                    />
+                  </label>
+                )}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <label className="cursor-pointer">
+                  <div className="aspect-square bg-muted rounded-2xl flex flex-col items-center justify-center border-2 border-dashed border-border hover:border-primary transition-colors">
+                    {postType === "spark" ? (
+                      <>
+                        <Video className="h-8 w-8 text-muted-foreground mb-2" />
+                        <span className="text-xs text-muted-foreground">Record Video</span>
+                      </>
+                    ) : (
+                      <>
+                        <Camera className="h-8 w-8 text-muted-foreground mb-2" />
+                        <span className="text-xs text-muted-foreground">Take Photo</span>
+                      </>
+                    )}
+                  </div>
+                  <input
+                    type="file"
+                    accept={postType === "spark" ? "video/*" : "image/*"}
+                    capture="environment"
+                    onChange={handleFileSelect}
+                    className="hidden"
+                    disabled={uploading || processing}
+                  />
+                </label>
+                
+                <label className="cursor-pointer">
+                  <div className="aspect-square bg-muted rounded-2xl flex flex-col items-center justify-center border-2 border-dashed border-border hover:border-primary transition-colors">
+                    {postType === "spark" ? (
+                      <>
+                        <Video className="h-8 w-8 text-muted-foreground mb-2" />
+                        <span className="text-xs text-muted-foreground">Gallery</span>
+                      </>
+                    ) : (
+                      <>
+                        <ImageIcon className="h-8 w-8 text-muted-foreground mb-2" />
+                        <span className="text-xs text-muted-foreground">Gallery</span>
+                      </>
+                    )}
+                  </div>
+                  <input
+                    type="file"
+                    accept={postType === "spark" ? "video/*" : "image/*,video/*"}
+                    multiple={postType === "post"}
+                    onChange={handleFileSelect}
+                    className="hidden"
+                    disabled={uploading || processing}
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+        )}
+
+        {postType === "post" && media.length === 0 && !poll && (
+          <Button
+            variant="outline"
+            className="w-full rounded-full"
+            onClick={() => setPoll(createPollDraft())}
+            disabled={uploading}
+          >
+            <ListChecks className="h-4 w-4 mr-2" />
+            Create a poll
+          </Button>
+        )}
+
+        {postType === "post" && isBrand && (
+          offer ? (
+            <OfferBuilder value={offer} onChange={setOffer} onRemove={() => setOffer(null)} disabled={uploading} />
+          ) : (
+            <Button
+              variant="outline"
+              className="w-full rounded-full"
+              onClick={() => setOffer(createOfferDraft())}
+              disabled={uploading}
+            >
+              <Gift className="h-4 w-4 mr-2" />
+              Add a sponsored offer
+            </Button>
+          )
+        )}
+
+        {publishAt ? (
+          <div className="space-y-3 rounded-2xl border border-border p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium">Schedule</h3>
+              <Button variant="ghost" size="sm" onClick={() => setPublishAt(null)} disabled={uploading}>
+                Publish now instead
+              </Button>
             </div>
-          )}
-        </div>
+            <SchedulePicker value={publishAt} onChange={setPublishAt} disabled={uploading} />
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            className="w-full rounded-full"
+            onClick={() => setPublishAt(getDefaultPublishAt())}
+            disabled={uploading}
+          >
+            <CalendarClock className="h-4 w-4 mr-2" />
+            Schedule for later
+          </Button>
+        )}
 
         {/* Caption */}
         <div>
-          <h3 className="font-medium mb-3">Caption</h3>
-          <Textarea
-            placeholder={postType === "spark" 
-              ? "Describe your spark... Use #hashtags"
+          <h3 className="font-medium mb-3">{poll ? "Question" : "Caption"}</h3>
+          <MentionInput
+            multiline
+            placeholder={poll
+              ? "Ask a question... Use #hashtags and @mentions"
+              : postType === "spark"
+              ? "Describe your spark... Use #hashtags and @mentions"
               : "Share what's on your mind... Use #hashtags and @mentions"
             }
             value={caption}
-            onChange={(e) => setCaption(e.target.value)}
+            onChange={setCaption}
             className="min-h-[120px] rounded-2xl border-border resize-none"
             maxLength={2200}
             disabled={uploading}
           />
-          <div className="text-right text-xs text-muted-foreground mt-1">
-            {caption.length}/2200
+          <div className="flex justify-between text-xs text-muted-foreground mt-1">
+            <span>
+              {draft.status === "saving"
+                ? "Saving draft..."
+                : draft.status === "saved"
+                ? "Draft saved"
+                : draft.status === "error"
+                ? "Couldn't save draft"
+                : ""}
+            </span>
+            <span>{caption.length}/2200</span>
           </div>
         </div>
 
@@ -307,13 +826,15 @@ export const Composer = () => {
         <Button 
           onClick={handlePublish}
           className="w-full h-12 rounded-full text-base font-semibold"
-          disabled={uploading || (!caption.trim() && !selectedFile)}
+          disabled={uploading || processing || loadingDraft || !canPublish}
         >
           {uploading ? (
             <>
               <Loader2 className="h-5 w-5 mr-2 animate-spin" />
-              Publishing...
+              {publishAt ? "Scheduling..." : "Publishing..."}
             </>
+          ) : publishAt ? (
+            "Schedule it 🗓️"
           ) : (
             postType === "spark" ? "Drop it! ⚡" : "Drop it! 🔥"
           )}
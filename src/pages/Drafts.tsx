@@ -0,0 +1,205 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { FileText, ListChecks, Play, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { StoryUploadSheet } from "@/components/stories/StoryUploadSheet";
+import { useToast } from "@/hooks/use-toast";
+import { deleteDraft, fetchDrafts, getDraftMediaUrl, type Draft, type DraftMedia } from "@/lib/drafts";
+
+const KIND_LABELS: Record<Draft["kind"], string> = {
+  post: "Post",
+  spark: "Spark",
+  story: "Story",
+};
+
+// Draft media is private, so thumbnails need a signed URL
+const DraftThumbnail = ({ item }: { item: DraftMedia }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    getDraftMediaUrl(item.path)
+      .then(setUrl)
+      .catch((error) => console.error("Error loading draft thumbnail:", error));
+  }, [item.path]);
+
+  return (
+    <div className="relative w-16 h-16 shrink-0 overflow-hidden rounded-lg bg-muted">
+      {url && (item.type === "video" ? (
+        <>
+          <video src={url} className="w-full h-full object-cover" preload="metadata" muted />
+          <Play className="absolute inset-0 m-auto h-5 w-5 text-white fill-white" />
+        </>
+      ) : (
+        <img src={url} alt="" className="w-full h-full object-cover" loading="lazy" />
+      ))}
+    </div>
+  );
+};
+
+export const Drafts = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [storyDraftId, setStoryDraftId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<Draft | null>(null);
+  const [removing, setRemoving] = useState(false);
+
+  useEffect(() => {
+    loadDrafts();
+  }, []);
+
+  const loadDrafts = async () => {
+    try {
+      setDrafts(await fetchDrafts());
+    } catch (error) {
+      console.error("Error loading drafts:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load drafts",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDraft = (draft: Draft) => {
+    if (draft.kind === "story") {
+      setStoryDraftId(draft.id);
+    } else {
+      navigate(`/composer?draft=${draft.id}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    setRemoving(true);
+    try {
+      await deleteDraft(deleting.id, deleting.media.map((item) => item.path));
+      setDrafts((current) => current.filter((draft) => draft.id !== deleting.id));
+      toast({
+        title: "Draft deleted",
+        description: "Your draft has been removed",
+      });
+    } catch (error) {
+      console.error("Error deleting draft:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete draft",
+        variant: "destructive",
+      });
+    } finally {
+      setRemoving(false);
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="w-8 h-8 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+        </div>
+      ) : drafts.length === 0 ? (
+        <div className="text-center py-16 px-4">
+          <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground mb-2">No drafts</p>
+          <p className="text-sm text-muted-foreground mb-6">
+            Posts, sparks and stories you start are saved here until you publish them
+          </p>
+          <Button className="rounded-full" onClick={() => navigate("/composer")}>
+            Create a post
+          </Button>
+        </div>
+      ) : (
+        <div className="p-4 space-y-3">
+          {drafts.map((draft) => (
+            <div
+              key={draft.id}
+              role="button"
+              onClick={() => openDraft(draft)}
+              className="flex gap-3 rounded-2xl border border-border p-3 cursor-pointer hover:bg-muted/50 transition-colors"
+            >
+              {draft.media[0] ? (
+                <DraftThumbnail item={draft.media[0]} />
+              ) : draft.poll ? (
+                <div className="w-16 h-16 shrink-0 rounded-lg bg-muted flex items-center justify-center">
+                  <ListChecks className="h-6 w-6 text-muted-foreground" />
+                </div>
+              ) : null}
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-medium text-primary">
+                  {KIND_LABELS[draft.kind]}
+                  {draft.media.length > 1 && ` · ${draft.media.length} items`}
+                  <span className="text-muted-foreground font-normal">
+                    {" · "}Edited {formatDistanceToNow(new Date(draft.updatedAt), { addSuffix: true })}
+                  </span>
+                </p>
+                <p className="text-sm mt-1 line-clamp-2 break-words">
+                  {draft.caption.trim() || <span className="text-muted-foreground">No caption</span>}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="shrink-0 text-muted-foreground hover:text-destructive"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setDeleting(draft);
+                }}
+                aria-label="Delete draft"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <StoryUploadSheet
+        open={!!storyDraftId}
+        onOpenChange={(open) => {
+          if (!open) {
+            setStoryDraftId(null);
+            loadDrafts();
+          }
+        }}
+        draftId={storyDraftId ?? undefined}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete draft?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This draft and its media will be removed from all your devices.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={removing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={removing}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {removing ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
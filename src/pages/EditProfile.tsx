@@ -6,7 +6,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { processImage } from "@/lib/image-pipeline";
 
+// Avatars are never shown larger than this
+const AVATAR_MAX_DIMENSION = 512;
 
 export const EditProfile = () => {
   const navigate = useNavigate();
@@ -67,12 +70,16 @@ export const EditProfile = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
-      const fileExt = file.name.split(".").pop();
+      const { file: processed } = await processImage(
+        file,
+        bucket === "avatars" ? { maxDimension: AVATAR_MAX_DIMENSION } : undefined
+      );
+      const fileExt = processed.name.split(".").pop();
       const fileName = `${user.id}/${Date.now()}.${fileExt}`;
 
       const { error: uploadError } = await supabase.storage
         .from(bucket)
-        .upload(fileName, file, { upsert: true });
+        .upload(fileName, processed, { upsert: true });
 
       if (uploadError) throw uploadError;
 
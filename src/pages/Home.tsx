@@ -1,44 +1,61 @@
 import { useState, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { Bookmark, CalendarClock } from "lucide-react";
 import { FeedCard } from "@/components/feed/FeedCard";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
 import { StoriesBar } from "@/components/stories/StoriesBar";
-
-interface Post {
-  id: string;
-  authorId: string;
-  author: {
-    username: string;
-    displayName: string;
-    avatar: string;
-    verified: boolean;
-    isFollowing: boolean;
-  };
-  content: {
-    type: "image" | "text";
-    url?: string;
-    caption: string;
-  };
-  engagement: {
-    likes: number;
-    comments: number;
-    shares: number;
-  };
-  timestamp: string;
-}
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  fetchFeedPage,
+  mergePosts,
+  toFeedPost,
+  type FeedCursor,
+  type FeedPost,
+  type FeedType,
+} from "@/lib/feed";
 
 export const Home = () => {
+  const navigate = useNavigate();
   const { toast } = useToast();
-  const [posts, setPosts] = useState<Post[]>([]);
+  const [feed, setFeed] = useState<FeedType>("for_you");
+  const [posts, setPosts] = useState<FeedPost[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
   const [showTopBar, setShowTopBar] = useState(true);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const cursorRef = useRef<FeedCursor | null>(null);
+  const loadingMoreRef = useRef(false);
+  const feedRef = useRef<FeedType>("for_you");
+  // Authors shown in the Following feed: accounts the user follows plus the user
+  const followingIdsRef = useRef<Set<string> | null>(null);
+  // Bumped on every feed reload so responses for a previous tab are dropped
+  const requestIdRef = useRef(0);
   const lastScrollY = useRef(0);
 
   useEffect(() => {
+    feedRef.current = feed;
     loadPosts();
-    
-    // Subscribe to new posts
+  }, [feed]);
+
+  useEffect(() => {
+    const handleLivePost = (row: Tables<"posts">) => {
+      if (row.is_spark) return;
+      if (
+        feedRef.current === "following" &&
+        !followingIdsRef.current?.has(row.user_id)
+      ) {
+        return;
+      }
+      loadInsertedPost(row.id);
+    };
+
+    // Subscribe to new posts. Scheduled ones show up when they are published.
     const channel = supabase
       .channel("posts-changes")
       .on(
@@ -48,8 +65,22 @@ export const Home = () => {
           schema: "public",
           table: "posts",
         },
-        () => {
-          loadPosts();
+        (payload) => {
+          if (payload.new.is_published === false) return;
+          handleLivePost(payload.new as Tables<"posts">);
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "posts",
+        },
+        (payload) => {
+          // Only the update that publishes a scheduled post
+          if (payload.old.is_published !== false || !payload.new.is_published) return;
+          handleLivePost(payload.new as Tables<"posts">);
         }
       )
       .subscribe();
@@ -81,98 +112,73 @@ export const Home = () => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
+  // Observe again after every page: observe() reports the current state, so a
+  // sentinel still within reach keeps loading instead of waiting for a scroll
+  useEffect(() => {
+    if (loading || loadingMore || !hasMore || loadMoreFailed || !sentinelRef.current) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(sentinelRef.current);
+    return () => observer.disconnect();
+  }, [loading, loadingMore, hasMore, loadMoreFailed]);
+
+  const loadFollowingIds = async (): Promise<Set<string>> => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return new Set();
+
+    const { data, error } = await supabase
+      .from("follows")
+      .select("following_id")
+      .eq("follower_id", user.id);
+
+    if (error) throw error;
+
+    return new Set([user.id, ...(data || []).map((follow) => follow.following_id)]);
+  };
+
+  const fetchPage = async (cursor: FeedCursor | null): Promise<FeedPost[]> => {
+    const rows = await fetchFeedPage({ feed: feedRef.current, cursor });
+    return rows.map(toFeedPost);
+  };
+
+  const applyPage = (page: FeedPost[], requestId: number) => {
+    if (requestId !== requestIdRef.current) return;
+
+    if (page.length === 0) {
+      // Only an empty page from the server means we've reached the end
+      setHasMore(false);
+      return;
+    }
+
+    const last = page[page.length - 1];
+    cursorRef.current = last.cursor;
+    setPosts((currentPosts) => mergePosts(currentPosts, page));
+  };
+
   const loadPosts = async () => {
+    const requestId = ++requestIdRef.current;
     try {
-      // Fetch posts with profile information (excluding sparks)
-      const { data, error } = await supabase
-        .from("posts")
-        .select(`
-          id,
-          content_type,
-          content_url,
-          caption,
-          created_at,
-          user_id,
-          profiles!inner (
-            user_id,
-            display_name,
-            handle,
-            avatar_url,
-            verified
-          )
-        `)
-        .eq("is_spark", false)
-        .order("created_at", { ascending: false })
-        .limit(20);
-
-      if (error) throw error;
-
-      console.log("Fetched posts:", data);
-
-      // Get engagement counts for all posts
-      const postIds = (data || []).map((post: any) => post.id);
-      
-      const { data: likesData } = await supabase
-        .from("likes")
-        .select("post_id")
-        .in("post_id", postIds);
-
-      const { data: commentsData } = await supabase
-        .from("comments")
-        .select("post_id")
-        .in("post_id", postIds);
-
-      // Count likes and comments per post
-      const likesCounts = likesData?.reduce((acc: any, like: any) => {
-        acc[like.post_id] = (acc[like.post_id] || 0) + 1;
-        return acc;
-      }, {}) || {};
-
-      const commentsCounts = commentsData?.reduce((acc: any, comment: any) => {
-        acc[comment.post_id] = (acc[comment.post_id] || 0) + 1;
-        return acc;
-      }, {}) || {};
-
-      // Transform data to match FeedCard interface
-      const transformedPosts: Post[] = (data || []).map((post: any) => {
-        const profile = post.profiles;
-        const timeAgo = getTimeAgo(new Date(post.created_at));
-        
-        // Get full public URL for storage images
-        let contentUrl = post.content_url;
-        if (contentUrl && !contentUrl.startsWith('http')) {
-          // If it's a storage path, get the public URL
-          const { data: { publicUrl } } = supabase.storage
-            .from('posts')
-            .getPublicUrl(contentUrl);
-          contentUrl = publicUrl;
-        }
-        
-        return {
-          id: post.id,
-          authorId: post.user_id,
-          author: {
-            username: profile?.handle || "user",
-            displayName: profile?.display_name || "User",
-            avatar: profile?.avatar_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${post.user_id}`,
-            verified: profile?.verified || false,
-            isFollowing: false,
-          },
-          content: {
-            type: post.content_type as "image" | "text",
-            url: contentUrl || undefined,
-            caption: post.caption || "",
-          },
-          engagement: {
-            likes: likesCounts[post.id] || 0,
-            comments: commentsCounts[post.id] || 0,
-            shares: 0,
-          },
-          timestamp: timeAgo,
-        };
-      });
+      setLoading(true);
+      cursorRef.current = null;
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+      setPosts([]);
+      setHasMore(true);
+      setLoadMoreFailed(false);
+
+      if (feedRef.current === "following") {
+        followingIdsRef.current = await loadFollowingIds();
+      }
 
-      setPosts(transformedPosts);
+      applyPage(await fetchPage(null), requestId);
     } catch (error) {
       console.error("Error loading posts:", error);
       toast({
@@ -181,46 +187,69 @@ export const Home = () => {
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
     }
   };
 
-  const handlePostDeleted = (postId: string) => {
-    setPosts((currentPosts) => currentPosts.filter((post) => post.id !== postId));
+  const loadMore = async () => {
+    if (loadingMoreRef.current || !cursorRef.current) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setLoadMoreFailed(false);
+    try {
+      applyPage(await fetchPage(cursorRef.current), requestId);
+    } catch (error) {
+      console.error("Error loading more posts:", error);
+      if (requestId === requestIdRef.current) {
+        setLoadMoreFailed(true);
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
   };
 
-  const getTimeAgo = (date: Date): string => {
-    const seconds = Math.floor((new Date().getTime() - date.getTime()) / 1000);
-    
-    if (seconds < 60) return "just now";
-    const minutes = Math.floor(seconds / 60);
-    if (minutes < 60) return `${minutes}m ago`;
-    const hours = Math.floor(minutes / 60);
-    if (hours < 24) return `${hours}h ago`;
-    const days = Math.floor(hours / 24);
-    if (days < 7) return `${days}d ago`;
-    const weeks = Math.floor(days / 7);
-    return `${weeks}w ago`;
+  const loadInsertedPost = async (postId: string) => {
+    try {
+      const [row] = await fetchFeedPage({ postIds: [postId] });
+      if (!row) return;
+
+      const newPost = toFeedPost(row);
+      setPosts((currentPosts) =>
+        currentPosts.some((post) => post.id === newPost.id)
+          ? currentPosts
+          : [newPost, ...currentPosts]
+      );
+    } catch (error) {
+      console.error("Error loading new post:", error);
+    }
   };
 
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-background flex items-center justify-center">
-        <div className="w-8 h-8 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
-      </div>
-    );
-  }
-
-  if (posts.length === 0) {
-    return (
-      <div className="min-h-screen bg-background flex items-center justify-center px-4">
-        <div className="text-center">
-          <p className="text-muted-foreground mb-4">No posts yet</p>
-          <p className="text-sm text-muted-foreground">Be the first to share something!</p>
-        </div>
-      </div>
+  const handlePostDeleted = (postId: string) => {
+    setPosts((currentPosts) => currentPosts.filter((post) => post.id !== postId));
+  };
+
+  // Keep every card by the same author in sync
+  const handleFollowChange = (authorId: string, following: boolean) => {
+    if (following) {
+      followingIdsRef.current?.add(authorId);
+    } else {
+      followingIdsRef.current?.delete(authorId);
+    }
+    setPosts((currentPosts) =>
+      currentPosts.map((post) =>
+        post.authorId === authorId
+          ? { ...post, author: { ...post.author, isFollowing: following } }
+          : post
+      )
     );
-  }
+  };
 
   return (
     <>
@@ -229,31 +258,100 @@ export const Home = () => {
           showTopBar ? 'translate-y-0' : '-translate-y-full'
         }`}
       >
-        <header className="h-16 px-4 flex items-center justify-between bg-background/95 backdrop-blur-md border-b border-border">
+        <header className="h-16 px-4 flex items-center justify-between bg-background/95 backdrop-blur-md">
           <div className="flex items-center">
-            <div className="w-10" />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate("/saved")}
+              className="touch-target"
+            >
+              <Bookmark className="h-5 w-5" />
+            </Button>
           </div>
           <h1 className="text-lg font-bold bg-gradient-primary bg-clip-text text-transparent">
             CHILL-Z
           </h1>
-          <div className="w-10" />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/scheduled")}
+            className="touch-target"
+          >
+            <CalendarClock className="h-5 w-5" />
+          </Button>
         </header>
+
+        {/* Feed Selector */}
+        <div className="px-4 pb-2 bg-background/95 backdrop-blur-md border-b border-border">
+          <Tabs value={feed} onValueChange={(v) => setFeed(v as FeedType)}>
+            <TabsList className="w-full">
+              <TabsTrigger value="for_you" className="flex-1">For You</TabsTrigger>
+              <TabsTrigger value="following" className="flex-1">Following</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
       </div>
 
-      <div className="min-h-screen bg-background pb-20 pt-16">
+      <div className="min-h-screen bg-background pb-20 pt-[7.5rem]">
         {/* Stories Bar */}
         <div className="mb-4 pt-4">
           <StoriesBar />
         </div>
         
-        <div className="px-4 space-y-0">
-          {posts.map((post) => (
-            <FeedCard key={post.id} post={post} onPostDeleted={handlePostDeleted} />
-          ))}
-        </div>
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="w-8 h-8 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+          </div>
+        ) : posts.length === 0 && !hasMore ? (
+          <div className="flex items-center justify-center py-16 px-4">
+            <div className="text-center">
+              {feed === "following" ? (
+                <>
+                  <p className="text-muted-foreground mb-4">Nothing here yet</p>
+                  <p className="text-sm text-muted-foreground">Follow people to see their posts in this feed</p>
+                </>
+              ) : (
+                <>
+                  <p className="text-muted-foreground mb-4">No posts yet</p>
+                  <p className="text-sm text-muted-foreground">Be the first to share something!</p>
+                </>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="px-4 space-y-0">
+            {posts.map((post) => (
+              <FeedCard
+                key={post.id}
+                post={post}
+                onPostDeleted={handlePostDeleted}
+                onFollowChange={handleFollowChange}
+              />
+            ))}
+          </div>
+        )}
         
+        {/* Infinite Scroll Sentinel */}
+        {!loading && hasMore && <div ref={sentinelRef} className="h-px" />}
+
         {/* Load More Indicator */}
-        {posts.length > 0 && (
+        {loadingMore && (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-6 h-6 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+          </div>
+        )}
+
+        {loadMoreFailed && (
+          <div className="flex flex-col items-center justify-center gap-2 py-8">
+            <p className="text-sm text-muted-foreground">Couldn't load more posts</p>
+            <Button variant="outline" size="sm" onClick={loadMore}>
+              Try again
+            </Button>
+          </div>
+        )}
+
+        {!hasMore && posts.length > 0 && (
           <div className="flex items-center justify-center py-8">
             <p className="text-sm text-muted-foreground">You are all caught up! 🎉</p>
           </div>
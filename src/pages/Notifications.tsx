@@ -1,10 +1,11 @@
 import { useState, useEffect } from "react";
-import { Bell, Heart, MessageCircle, UserPlus, FileText } from "lucide-react";
+import { Bell, Heart, MessageCircle, UserPlus, FileText, AtSign, Reply, SmilePlus, Vote, Repeat2, Quote } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
+import { getPostPath } from "@/lib/feed";
 
 interface Notification {
   id: string;
@@ -15,6 +16,7 @@ interface Notification {
   created_at: string;
   actor_id?: string;
   post_id?: string;
+  comment_id?: string;
   actor?: {
     display_name: string;
     avatar_url: string;
@@ -31,6 +33,18 @@ const getNotificationIcon = (type: string) => {
       return UserPlus;
     case "post":
       return FileText;
+    case "mention":
+      return AtSign;
+    case "reply":
+      return Reply;
+    case "reaction":
+      return SmilePlus;
+    case "poll_closed":
+      return Vote;
+    case "repost":
+      return Repeat2;
+    case "quote":
+      return Quote;
     default:
       return Bell;
   }
@@ -116,8 +130,10 @@ const Notifications = () => {
 
     // Navigate based on type
     if (notification.post_id) {
-      navigate('/home');
-    } else if (notification.type === 'follow' && notification.actor_id) {
+      const commentQuery = notification.comment_id ? `?comment=${notification.comment_id}` : '';
+      navigate(`${getPostPath(notification.post_id)}${commentQuery}`);
+    } else if (notification.actor_id) {
+      // Follows, and mentions or comments on a story, have no post to open
       navigate(`/profile/${notification.actor_id}`);
     }
     
@@ -182,9 +198,12 @@ const Notifications = () => {
                         <div className="flex items-center gap-2">
                           <Icon className={`h-4 w-4 ${
                             notification.type === "like" ? "text-red-500" :
-                            notification.type === "comment" ? "text-blue-500" :
-                            notification.type === "follow" ? "text-green-500" :
-                            notification.type === "post" ? "text-purple-500" :
+                            notification.type === "reaction" ? "text-orange-500" :
+                            notification.type === "comment" || notification.type === "reply" ? "text-blue-500" :
+                            notification.type === "follow" || notification.type === "repost" ? "text-green-500" :
+                            notification.type === "quote" ? "text-blue-500" :
+                            notification.type === "post" || notification.type === "poll_closed" ? "text-purple-500" :
+                            notification.type === "mention" ? "text-primary" :
                             "text-muted-foreground"
                           }`} />
                           <p className="font-semibold text-sm">{notification.title}</p>
@@ -0,0 +1,83 @@
+import { useState, useEffect } from "react";
+import { useParams, useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { FileX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FeedCard } from "@/components/feed/FeedCard";
+import { fetchFeedPage, getPostPath, toFeedPost, type FeedPost } from "@/lib/feed";
+
+// Single post or spark with its comment thread open. Serves both /post/:postId
+// and /sparks/:sparkId so shared and notification links resolve.
+export const PostDetail = () => {
+  const { postId, sparkId } = useParams();
+  const id = postId || sparkId;
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [post, setPost] = useState<FeedPost | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadPost();
+  }, [id]);
+
+  const loadPost = async () => {
+    if (!id) return;
+
+    setLoading(true);
+    try {
+      const [row] = await fetchFeedPage({ postIds: [id], limit: 1 });
+      if (!row) {
+        setPost(null);
+        return;
+      }
+
+      // Keep the URL canonical if a spark was opened as a post or vice versa
+      const path = getPostPath(row.id, row.is_spark);
+      if (path !== location.pathname) {
+        navigate(`${path}${location.search}`, { replace: true });
+      }
+
+      setPost(toFeedPost(row));
+    } catch (error) {
+      console.error("Error loading post:", error);
+      setPost(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePostDeleted = () => {
+    navigate("/home", { replace: true });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="w-8 h-8 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!post) {
+    return (
+      <div className="text-center py-16 px-4">
+        <FileX className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground mb-2">This post isn't available</p>
+        <p className="text-sm text-muted-foreground mb-6">It may have been deleted</p>
+        <Button onClick={() => navigate("/home")}>Back to Home</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background pb-20 px-4">
+      <FeedCard
+        key={post.id}
+        post={post}
+        onPostDeleted={handlePostDeleted}
+        defaultShowComments
+        highlightCommentId={searchParams.get("comment") || undefined}
+      />
+    </div>
+  );
+};
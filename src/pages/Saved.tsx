@@ -0,0 +1,249 @@
+import { useState, useEffect, useRef } from "react";
+import { Bookmark } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FeedCard } from "@/components/feed/FeedCard";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  FEED_PAGE_SIZE,
+  fetchFeedPage,
+  mergePosts,
+  toFeedPost,
+  type FeedCursor,
+  type FeedPost,
+} from "@/lib/feed";
+
+interface SavedCollection {
+  id: string;
+  name: string;
+}
+
+export const Saved = () => {
+  const { toast } = useToast();
+  const [collections, setCollections] = useState<SavedCollection[]>([]);
+  const [activeCollection, setActiveCollection] = useState<string | null>(null);
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Cursor over saved_posts (when it was saved), not over the posts themselves
+  const cursorRef = useRef<FeedCursor | null>(null);
+  const loadingMoreRef = useRef(false);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    loadCollections();
+  }, []);
+
+  useEffect(() => {
+    loadSaved();
+  }, [activeCollection]);
+
+  // Observe again after every page so a sentinel still in view keeps loading
+  useEffect(() => {
+    if (loading || !hasMore || !sentinelRef.current) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(sentinelRef.current);
+    return () => observer.disconnect();
+  }, [loading, hasMore, posts.length]);
+
+  const loadCollections = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data } = await supabase
+      .from("saved_collections")
+      .select("id, name")
+      .eq("user_id", user.id)
+      .order("name");
+
+    setCollections(data || []);
+  };
+
+  const fetchPage = async (cursor: FeedCursor | null) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { posts: [], next: null };
+
+    let query = supabase
+      .from("saved_posts")
+      .select("id, post_id, created_at")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(FEED_PAGE_SIZE);
+
+    if (activeCollection) {
+      query = query.eq("collection_id", activeCollection);
+    }
+
+    if (cursor) {
+      query = query.or(
+        `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+      );
+    }
+
+    const { data: savedRows, error } = await query;
+    if (error) throw error;
+    if (!savedRows || savedRows.length === 0) return { posts: [], next: null };
+
+    const rows = await fetchFeedPage({
+      postIds: savedRows.map((saved) => saved.post_id),
+      limit: savedRows.length,
+    });
+    const postsById = new Map(rows.map((row) => [row.id, toFeedPost(row)]));
+
+    // Keep the order in which things were saved
+    const page = savedRows
+      .map((saved) => postsById.get(saved.post_id))
+      .filter((post): post is FeedPost => !!post);
+
+    const last = savedRows[savedRows.length - 1];
+    return { posts: page, next: { createdAt: last.created_at, id: last.id } };
+  };
+
+  const loadSaved = async () => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setPosts([]);
+    setHasMore(true);
+    cursorRef.current = null;
+    loadingMoreRef.current = false;
+
+    try {
+      const { posts: page, next } = await fetchPage(null);
+      if (requestId !== requestIdRef.current) return;
+
+      cursorRef.current = next;
+      setPosts(page);
+      setHasMore(!!next);
+    } catch (error) {
+      console.error("Error loading saved posts:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load saved posts",
+        variant: "destructive",
+      });
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const loadMore = async () => {
+    if (loadingMoreRef.current || !cursorRef.current) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const { posts: page, next } = await fetchPage(cursorRef.current);
+      if (requestId !== requestIdRef.current) return;
+
+      cursorRef.current = next;
+      setPosts((current) => mergePosts(current, page));
+      setHasMore(!!next);
+    } catch (error) {
+      console.error("Error loading more saved posts:", error);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  const handleSaveChange = (postId: string, saved: boolean) => {
+    if (!saved) {
+      setPosts((current) => current.filter((post) => post.id !== postId));
+    }
+  };
+
+  const handlePostDeleted = (postId: string) => {
+    setPosts((current) => current.filter((post) => post.id !== postId));
+  };
+
+  const handleFollowChange = (authorId: string, following: boolean) => {
+    setPosts((current) =>
+      current.map((post) =>
+        post.authorId === authorId
+          ? { ...post, author: { ...post.author, isFollowing: following } }
+          : post
+      )
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      {/* Collections */}
+      {collections.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto px-4 py-3 scrollbar-hide border-b border-border">
+          <Button
+            size="sm"
+            variant={activeCollection === null ? "default" : "outline"}
+            className="rounded-full shrink-0"
+            onClick={() => setActiveCollection(null)}
+          >
+            All
+          </Button>
+          {collections.map((collection) => (
+            <Button
+              key={collection.id}
+              size="sm"
+              variant={activeCollection === collection.id ? "default" : "outline"}
+              className="rounded-full shrink-0 max-w-[160px]"
+              onClick={() => setActiveCollection(collection.id)}
+            >
+              <span className="truncate">{collection.name}</span>
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="w-8 h-8 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+        </div>
+      ) : posts.length === 0 ? (
+        <div className="text-center py-16 px-4">
+          <Bookmark className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground mb-2">Nothing saved yet</p>
+          <p className="text-sm text-muted-foreground">
+            Tap the bookmark on any post or spark to keep it here
+          </p>
+        </div>
+      ) : (
+        <div className="px-4 space-y-0">
+          {posts.map((post) => (
+            <FeedCard
+              key={post.id}
+              post={post}
+              onPostDeleted={handlePostDeleted}
+              onSaveChange={handleSaveChange}
+              onFollowChange={handleFollowChange}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Infinite Scroll Sentinel */}
+      {!loading && hasMore && <div ref={sentinelRef} className="h-px" />}
+
+      {loadingMore && (
+        <div className="flex items-center justify-center py-8">
+          <div className="w-6 h-6 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+        </div>
+      )}
+    </div>
+  );
+};
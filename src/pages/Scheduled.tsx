@@ -0,0 +1,290 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { CalendarClock, ListChecks, Loader2, Pencil, Play, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { EditPostSheet } from "@/components/feed/EditPostSheet";
+import { RichText } from "@/components/feed/RichText";
+import { SchedulePicker } from "@/components/scheduling/SchedulePicker";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { deletePost } from "@/lib/feed";
+import {
+  fetchScheduledPosts,
+  formatPublishAt,
+  reschedulePost,
+  validatePublishAt,
+  type ScheduledPost,
+} from "@/lib/scheduling";
+
+export const Scheduled = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [items, setItems] = useState<ScheduledPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rescheduling, setRescheduling] = useState<ScheduledPost | null>(null);
+  const [rescheduleAt, setRescheduleAt] = useState<Date>(new Date());
+  const [savingSchedule, setSavingSchedule] = useState(false);
+  const [editing, setEditing] = useState<ScheduledPost | null>(null);
+  const [cancelling, setCancelling] = useState<ScheduledPost | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    loadScheduled();
+  }, []);
+
+  const loadScheduled = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setItems(await fetchScheduledPosts(user.id));
+    } catch (error) {
+      console.error("Error loading scheduled posts:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load scheduled posts",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openReschedule = (item: ScheduledPost) => {
+    setRescheduleAt(new Date(item.publishAt));
+    setRescheduling(item);
+  };
+
+  const handleReschedule = async () => {
+    if (!rescheduling) return;
+
+    const scheduleError = validatePublishAt(rescheduleAt);
+    if (scheduleError) {
+      toast({
+        title: "Check the schedule",
+        description: scheduleError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingSchedule(true);
+    try {
+      await reschedulePost(rescheduling.post.id, rescheduleAt);
+
+      const publishAt = rescheduleAt.toISOString();
+      setItems((current) =>
+        current
+          .map((item) => (item.post.id === rescheduling.post.id ? { ...item, publishAt } : item))
+          .sort((a, b) => new Date(a.publishAt).getTime() - new Date(b.publishAt).getTime())
+      );
+      setRescheduling(null);
+      toast({
+        title: "Rescheduled",
+        description: `Publishes ${formatPublishAt(rescheduleAt)}`,
+      });
+    } catch (error) {
+      console.error("Error rescheduling post:", error);
+      toast({
+        title: "Error",
+        description: "Failed to reschedule. It may have already been published.",
+        variant: "destructive",
+      });
+      loadScheduled();
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelling) return;
+
+    setDeleting(true);
+    try {
+      await deletePost(cancelling.post);
+
+      setItems((current) => current.filter((item) => item.post.id !== cancelling.post.id));
+      toast({
+        title: "Scheduled post cancelled",
+        description: "It won't be published",
+      });
+    } catch (error) {
+      console.error("Error cancelling scheduled post:", error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel scheduled post",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleting(false);
+      setCancelling(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="w-8 h-8 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-16 px-4">
+          <CalendarClock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground mb-2">Nothing scheduled</p>
+          <p className="text-sm text-muted-foreground mb-6">
+            Pick "Schedule for later" in the composer to queue a post or spark
+          </p>
+          <Button className="rounded-full" onClick={() => navigate("/composer")}>
+            Create a post
+          </Button>
+        </div>
+      ) : (
+        <div className="p-4 space-y-3">
+          {items.map((item) => {
+            const { post } = item;
+            const cover = post.content.media?.[0] || (post.content.url ? post.content : null);
+            const posterUrl = post.content.media?.[0]?.posterUrl;
+
+            return (
+              <div key={post.id} className="rounded-2xl border border-border p-3 space-y-3">
+                <div className="flex gap-3">
+                  {cover?.url ? (
+                    <div className="relative w-16 h-16 shrink-0 overflow-hidden rounded-lg bg-muted">
+                      {cover.type === "video" ? (
+                        <>
+                          <video
+                            src={cover.url}
+                            poster={posterUrl}
+                            className="w-full h-full object-cover"
+                            preload={posterUrl ? "none" : "metadata"}
+                            muted
+                          />
+                          <Play className="absolute inset-0 m-auto h-5 w-5 text-white fill-white" />
+                        </>
+                      ) : (
+                        <img src={cover.url} alt="" className="w-full h-full object-cover" loading="lazy" />
+                      )}
+                    </div>
+                  ) : post.poll ? (
+                    <div className="w-16 h-16 shrink-0 rounded-lg bg-muted flex items-center justify-center">
+                      <ListChecks className="h-6 w-6 text-muted-foreground" />
+                    </div>
+                  ) : null}
+                  <div className="flex-1 min-w-0">
+                    <p className="flex items-center gap-1 text-xs font-medium text-primary">
+                      <CalendarClock className="h-3.5 w-3.5" />
+                      {post.isSpark ? "Spark" : "Post"} · Publishes {formatPublishAt(item.publishAt)}
+                    </p>
+                    <p className="text-sm mt-1 line-clamp-3 break-words">
+                      {post.content.caption ? (
+                        <RichText text={post.content.caption} />
+                      ) : (
+                        <span className="text-muted-foreground">No caption</span>
+                      )}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" className="flex-1 rounded-full" onClick={() => openReschedule(item)}>
+                    <CalendarClock className="h-4 w-4 mr-1" />
+                    Reschedule
+                  </Button>
+                  <Button variant="outline" size="sm" className="flex-1 rounded-full" onClick={() => setEditing(item)}>
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="rounded-full text-destructive hover:text-destructive"
+                    onClick={() => setCancelling(item)}
+                    aria-label="Cancel scheduled post"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={!!rescheduling} onOpenChange={(open) => !open && setRescheduling(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Reschedule</DialogTitle>
+          </DialogHeader>
+          <SchedulePicker value={rescheduleAt} onChange={setRescheduleAt} disabled={savingSchedule} />
+          <DialogFooter>
+            <Button onClick={handleReschedule} disabled={savingSchedule} className="w-full rounded-full">
+              {savingSchedule ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {editing && (
+        <EditPostSheet
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          postId={editing.post.id}
+          caption={editing.post.content.caption}
+          media={editing.post.content.media || []}
+          onSaved={(changes) =>
+            setItems((current) =>
+              current.map((item) =>
+                item.post.id === editing.post.id
+                  ? {
+                      ...item,
+                      post: {
+                        ...item.post,
+                        content: { ...item.post.content, caption: changes.caption, media: changes.media },
+                      },
+                    }
+                  : item
+              )
+            )
+          }
+        />
+      )}
+
+      <AlertDialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel scheduled {cancelling?.post.isSpark ? "spark" : "post"}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will be deleted and won't be published.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Keep it</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleCancel}
+              disabled={deleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleting ? "Cancelling..." : "Cancel post"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
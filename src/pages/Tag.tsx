@@ -0,0 +1,187 @@
+import { useState, useEffect, useRef } from "react";
+import { useParams } from "react-router-dom";
+import { Hash } from "lucide-react";
+import { FeedCard } from "@/components/feed/FeedCard";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  fetchFeedPage,
+  mergePosts,
+  toFeedPost,
+  type FeedCursor,
+  type FeedPost,
+} from "@/lib/feed";
+
+export const Tag = () => {
+  const { name = "" } = useParams();
+  const tag = name.toLowerCase();
+  const { toast } = useToast();
+  const [postsCount, setPostsCount] = useState<number | null>(null);
+  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const cursorRef = useRef<FeedCursor | null>(null);
+  const loadingMoreRef = useRef(false);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    loadTag();
+    loadPosts();
+  }, [tag]);
+
+  // Observe again after every page so a sentinel still in view keeps loading
+  useEffect(() => {
+    if (loading || !hasMore || !sentinelRef.current) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(sentinelRef.current);
+    return () => observer.disconnect();
+  }, [loading, hasMore, posts.length]);
+
+  const loadTag = async () => {
+    const { data } = await supabase
+      .from("hashtags")
+      .select("posts_count")
+      .eq("name", tag)
+      .maybeSingle();
+
+    setPostsCount(data?.posts_count ?? 0);
+  };
+
+  const applyPage = (page: FeedPost[]) => {
+    if (page.length === 0) {
+      // Only an empty page from the server means we've reached the end
+      setHasMore(false);
+      return;
+    }
+
+    const last = page[page.length - 1];
+    cursorRef.current = last.cursor;
+  };
+
+  const loadPosts = async () => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setPosts([]);
+    setHasMore(true);
+    cursorRef.current = null;
+    loadingMoreRef.current = false;
+
+    try {
+      const rows = await fetchFeedPage({ tag });
+      if (requestId !== requestIdRef.current) return;
+
+      const page = rows.map(toFeedPost);
+      setPosts(page);
+      applyPage(page);
+    } catch (error) {
+      console.error("Error loading tag posts:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load posts",
+        variant: "destructive",
+      });
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const loadMore = async () => {
+    if (loadingMoreRef.current || !cursorRef.current) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const rows = await fetchFeedPage({ tag, cursor: cursorRef.current });
+      if (requestId !== requestIdRef.current) return;
+
+      const page = rows.map(toFeedPost);
+      setPosts((current) => mergePosts(current, page));
+      applyPage(page);
+    } catch (error) {
+      console.error("Error loading more tag posts:", error);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  const handlePostDeleted = (postId: string) => {
+    setPosts((current) => current.filter((post) => post.id !== postId));
+  };
+
+  const handleFollowChange = (authorId: string, following: boolean) => {
+    setPosts((current) =>
+      current.map((post) =>
+        post.authorId === authorId
+          ? { ...post, author: { ...post.author, isFollowing: following } }
+          : post
+      )
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      {/* Tag Header */}
+      <div className="flex items-center gap-3 px-4 py-4 border-b border-border">
+        <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center">
+          <Hash className="h-6 w-6 text-primary" />
+        </div>
+        <div>
+          <h2 className="font-bold text-lg">#{tag}</h2>
+          {postsCount !== null && (
+            <p className="text-sm text-muted-foreground">
+              {postsCount} {postsCount === 1 ? "post" : "posts"}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="w-8 h-8 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+        </div>
+      ) : posts.length === 0 ? (
+        <div className="text-center py-16 px-4">
+          <p className="text-muted-foreground mb-2">No posts with #{tag} yet</p>
+          <p className="text-sm text-muted-foreground">Be the first to use it!</p>
+        </div>
+      ) : (
+        <div className="px-4 space-y-0">
+          {posts.map((post) => (
+            <FeedCard
+              key={post.id}
+              post={post}
+              onPostDeleted={handlePostDeleted}
+              onFollowChange={handleFollowChange}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Infinite Scroll Sentinel */}
+      {!loading && hasMore && <div ref={sentinelRef} className="h-px" />}
+
+      {loadingMore && (
+        <div className="flex items-center justify-center py-8">
+          <div className="w-6 h-6 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+        </div>
+      )}
+    </div>
+  );
+};
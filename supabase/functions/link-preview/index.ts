@@ -0,0 +1,388 @@
+// Fetches a page's OpenGraph title, description and image and stores them in
+// public.link_previews for the caller's post. Set LINK_PREVIEW_FETCHER=stub to
+// store predictable previews without touching the network in development.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const FETCH_TIMEOUT_MS = 5000;
+// OpenGraph tags live in <head>; don't read more of the page than this
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_REDIRECTS = 5;
+const MAX_HEADER_BYTES = 64 * 1024;
+
+interface LinkPreviewResponse {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const isPrivateIPv4 = (address: string) => {
+  const [a, b] = address.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19))
+  );
+};
+
+const IPV4_PATTERN = /^\d+\.\d+\.\d+\.\d+$/;
+
+// The eight 16-bit groups of an IPv6 address, or null when it doesn't parse
+const parseIPv6 = (address: string) => {
+  let ip = address.toLowerCase();
+  // A trailing dotted quad stands for the last two groups
+  const quad = ip.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (quad) {
+    const [a, b, c, d] = quad[1].split(".").map(Number);
+    ip = ip.slice(0, -quad[1].length) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = ip.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(missing).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+const isPrivateIPv6 = (address: string) => {
+  const groups = parseIPv6(address);
+  if (!groups) return true;
+
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+  // IPv4-mapped addresses (::ffff:a.b.c.d, in any notation) reach the same
+  // hosts as the IPv4 address
+  if (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0xffff) {
+    return isPrivateIPv4(`${g6 >> 8}.${g6 & 0xff}.${g7 >> 8}.${g7 & 0xff}`);
+  }
+
+  return (
+    // ::/96: unspecified, loopback and the deprecated IPv4-compatible range
+    (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0) ||
+    // NAT64 (64:ff9b::/96 and the local-use 64:ff9b:1::/48) can reach
+    // whatever IPv4 network the translator sits on
+    (g0 === 0x64 && g1 === 0xff9b) ||
+    (g0 & 0xfe00) === 0xfc00 ||
+    (g0 & 0xffc0) === 0xfe80 ||
+    (g0 & 0xff00) === 0xff00
+  );
+};
+
+const resolveAddresses = async (host: string) => {
+  if (IPV4_PATTERN.test(host)) return [host];
+  if (host.startsWith("[")) return [host.slice(1, -1)];
+
+  // A host without one of the record types throws NotFound; that's fine
+  const lookup = (type: "A" | "AAAA") => Deno.resolveDns(host, type).catch(() => [] as string[]);
+  const [v4, v6] = await Promise.all([lookup("A"), lookup("AAAA")]);
+  return [...v4, ...v6];
+};
+
+// Only public http(s) hosts; never let callers probe the function's own
+// network. Names are resolved so one pointing at a private address is
+// refused, and the address checked here is the one we connect to.
+const resolvePublicAddress = async (url: URL) => {
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+  const host = url.hostname.toLowerCase();
+  if (host === "localhost" || host.endsWith(".local") || host.endsWith(".internal")) return null;
+
+  const addresses = await resolveAddresses(host);
+  const allowed =
+    addresses.length > 0 &&
+    addresses.every((address) => (address.includes(":") ? !isPrivateIPv6(address) : !isPrivateIPv4(address)));
+  return allowed ? addresses[0] : null;
+};
+
+const indexOfHeaderEnd = (bytes: Uint8Array) => {
+  for (let i = 0; i + 3 < bytes.length; i++) {
+    if (bytes[i] === 13 && bytes[i + 1] === 10 && bytes[i + 2] === 13 && bytes[i + 3] === 10) return i;
+  }
+  return -1;
+};
+
+// GET the URL from an already checked address. fetch() would resolve the
+// name again, and a rebinding DNS server could answer with a private address
+// the second time. HTTP/1.0 keeps the response unchunked and ends it by
+// closing the connection.
+const requestFrom = async (url: URL, address: string) => {
+  const port = Number(url.port) || (url.protocol === "https:" ? 443 : 80);
+  let conn: Deno.Conn = await Deno.connect({ hostname: address, port });
+
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearTimeout(timer);
+    try {
+      conn.close();
+    } catch {
+      // Already closed by the peer
+    }
+  };
+  // Covers the whole exchange, body included; pending reads then fail
+  const timer = setTimeout(close, FETCH_TIMEOUT_MS);
+
+  try {
+    if (url.protocol === "https:") {
+      // Certificate and SNI are checked against the name, not the address
+      conn = await Deno.startTls(conn, { hostname: url.hostname.replace(/^\[(.*)\]$/, "$1") });
+    }
+
+    const request = [
+      `GET ${url.pathname}${url.search} HTTP/1.0`,
+      `Host: ${url.host}`,
+      "User-Agent: Mozilla/5.0 (compatible; LinkPreviewBot/1.0)",
+      "Accept: text/html,application/xhtml+xml",
+      "Accept-Encoding: identity",
+      "Connection: close",
+      "",
+      "",
+    ].join("\r\n");
+    await conn.write(new TextEncoder().encode(request));
+
+    let received = new Uint8Array(0);
+    let headerEnd = -1;
+    while (headerEnd < 0) {
+      if (received.length > MAX_HEADER_BYTES) throw new Error("Response headers too large");
+      const chunk = new Uint8Array(16 * 1024);
+      const read = await conn.read(chunk);
+      if (read === null) throw new Error("Connection closed before headers");
+      const next = new Uint8Array(received.length + read);
+      next.set(received);
+      next.set(chunk.subarray(0, read), received.length);
+      received = next;
+      headerEnd = indexOfHeaderEnd(received);
+    }
+
+    const [statusLine, ...headerLines] = new TextDecoder().decode(received.subarray(0, headerEnd)).split("\r\n");
+    const status = Number(statusLine.match(/^HTTP\/1\.[01] (\d{3})/)?.[1]);
+    if (!(status >= 200 && status <= 599)) throw new Error(`Unexpected status line: ${statusLine}`);
+
+    const headers = new Headers();
+    for (const line of headerLines) {
+      const colon = line.indexOf(":");
+      if (colon > 0) headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+    }
+
+    // Redirects are followed from their Location header alone
+    if ([204, 205, 304].includes(status) || (status >= 300 && status < 400)) {
+      close();
+      return new Response(null, { status, headers });
+    }
+
+    const rest = received.slice(headerEnd + 4);
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (rest.length > 0) controller.enqueue(rest);
+      },
+      async pull(controller) {
+        const chunk = new Uint8Array(16 * 1024);
+        const read = await conn.read(chunk);
+        if (read === null) {
+          close();
+          controller.close();
+          return;
+        }
+        controller.enqueue(chunk.subarray(0, read));
+      },
+      cancel: close,
+    });
+    return new Response(body, { status, headers });
+  } catch (error) {
+    close();
+    throw error;
+  }
+};
+
+// Follow redirects by hand so every hop is resolved and checked again
+const fetchPage = async (start: URL) => {
+  let target = start;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const address = await resolvePublicAddress(target);
+    if (!address) return null;
+
+    const response = await requestFrom(target, address);
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, finalUrl: target };
+    }
+
+    await response.body?.cancel();
+    target = new URL(location, target);
+  }
+  return null;
+};
+
+const readHead = async (response: Response) => {
+  const reader = response.body?.getReader();
+  if (!reader) return "";
+
+  const decoder = new TextDecoder();
+  let html = "";
+  let bytes = 0;
+  while (bytes < MAX_HTML_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.length;
+    html += decoder.decode(value, { stream: true });
+    if (html.includes("</head>")) break;
+  }
+  await reader.cancel();
+  return html;
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">");
+
+// Content of <meta property="..."> or <meta name="...">, in either attribute order
+const getMeta = (html: string, key: string) => {
+  const patterns = [
+    new RegExp(`<meta[^>]+(?:property|name)=["']${key}["'][^>]*content=["']([^"']*)["']`, "i"),
+    new RegExp(`<meta[^>]+content=["']([^"']*)["'][^>]*(?:property|name)=["']${key}["']`, "i"),
+  ];
+  for (const pattern of patterns) {
+    const match = html.match(pattern);
+    if (match?.[1]?.trim()) return decodeEntities(match[1].trim());
+  }
+  return null;
+};
+
+const getTitle = (html: string) => {
+  const match = html.match(/<title[^>]*>([^<]*)<\/title>/i);
+  return match?.[1]?.trim() ? decodeEntities(match[1].trim()) : null;
+};
+
+const toAbsoluteUrl = (value: string | null, base: string) => {
+  if (!value) return null;
+  try {
+    const url = new URL(value, base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Resolves a URL to its preview, or null when the page has none
+type PreviewFetcher = (url: string, target: URL) => Promise<LinkPreviewResponse | null>;
+
+const fetchOpenGraph: PreviewFetcher = async (url, target) => {
+  const page = await fetchPage(target);
+  if (!page) return null;
+
+  const { response, finalUrl } = page;
+  if (!response.ok || !response.headers.get("content-type")?.includes("text/html")) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  const html = await readHead(response);
+  const preview: LinkPreviewResponse = {
+    url,
+    title: getMeta(html, "og:title") || getMeta(html, "twitter:title") || getTitle(html),
+    description:
+      getMeta(html, "og:description") || getMeta(html, "twitter:description") || getMeta(html, "description"),
+    image_url: toAbsoluteUrl(getMeta(html, "og:image") || getMeta(html, "twitter:image"), finalUrl.toString()),
+    site_name: getMeta(html, "og:site_name") || finalUrl.hostname.replace(/^www\./, ""),
+  };
+
+  return preview.title || preview.description || preview.image_url ? preview : null;
+};
+
+// Offline stand-in for local development: no network, predictable output
+const stubFetcher: PreviewFetcher = async (url, target) => ({
+  url,
+  title: `Preview of ${target.hostname}`,
+  description: url,
+  image_url: null,
+  site_name: target.hostname.replace(/^www\./, ""),
+});
+
+const fetchPreview = Deno.env.get("LINK_PREVIEW_FETCHER") === "stub" ? stubFetcher : fetchOpenGraph;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { url, post_id: postId } = await req.json();
+
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return json({ error: "Invalid URL" }, 400);
+    }
+    if (typeof postId !== "string") {
+      return json({ error: "Missing post" }, 400);
+    }
+
+    // Previews are written with the service role, so check the caller owns
+    // the post and the URL is actually in its caption
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return json({ error: "Not authenticated" }, 401);
+    }
+
+    const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const { data: post, error: postError } = await admin
+      .from("posts")
+      .select("caption")
+      .eq("id", postId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (postError) throw postError;
+    if (!post?.caption?.includes(url)) {
+      return json({ error: "Post not found" }, 404);
+    }
+
+    const preview = await fetchPreview(url, target);
+    if (!preview) {
+      return json({ error: "No preview available" }, 422);
+    }
+
+    const { error: insertError } = await admin
+      .from("link_previews")
+      .upsert({ post_id: postId, ...preview }, { onConflict: "post_id" });
+    if (insertError) throw insertError;
+
+    return json(preview);
+  } catch (error) {
+    console.error("Error fetching link preview:", error);
+    return json({ error: "Failed to fetch link preview" }, 502);
+  }
+});
@@ -0,0 +1,83 @@
+-- Indexes for keyset pagination and per-post engagement lookups
+CREATE INDEX IF NOT EXISTS idx_posts_created_at_id ON public.posts(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_likes_post_id ON public.likes(post_id);
+CREATE INDEX IF NOT EXISTS idx_comments_post_id ON public.comments(post_id);
+CREATE INDEX IF NOT EXISTS idx_follows_follower_id ON public.follows(follower_id);
+
+-- Return a page of feed posts joined with the author profile, engagement
+-- counts and the current viewer's flags in a single round trip.
+--
+-- p_feed selects the feed ('for_you' or 'following'); p_post_ids fetches
+-- specific posts (including sparks) instead. Pages are keyset-paginated on
+-- (created_at, id): pass the last row of the previous page as the cursor.
+CREATE OR REPLACE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  reposts_count BIGINT,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id),
+    (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id),
+    (SELECT count(*) FROM public.reposts r WHERE r.post_id = p.id),
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    -- Bookmarks are only kept client-side for now
+    false,
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid())
+  FROM public.posts p
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE
+    CASE
+      WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+      WHEN p_feed = 'following' THEN
+        NOT p.is_spark
+        AND (
+          p.user_id = auth.uid()
+          OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+        )
+      ELSE NOT p.is_spark
+    END
+    AND (
+      p_cursor_created_at IS NULL
+      OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,273 @@
+-- Denormalized engagement counters
+ALTER TABLE public.posts
+  ADD COLUMN likes_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN comments_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN reposts_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN shares_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.comments
+  ADD COLUMN likes_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.stories
+  ADD COLUMN likes_count INTEGER NOT NULL DEFAULT 0;
+
+-- comment_likes never referenced comments, so deleted comments left orphaned likes
+DELETE FROM public.comment_likes cl
+WHERE NOT EXISTS (SELECT 1 FROM public.comments c WHERE c.id = cl.comment_id);
+
+ALTER TABLE public.comment_likes
+ADD CONSTRAINT comment_likes_comment_id_fkey
+FOREIGN KEY (comment_id)
+REFERENCES public.comments(id)
+ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_comment_likes_comment_id ON public.comment_likes(comment_id);
+
+-- Create post_shares table so shares can be counted like everything else
+CREATE TABLE public.post_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.post_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Shares are viewable by everyone"
+ON public.post_shares
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can record their own shares"
+ON public.post_shares
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_post_shares_post_id ON public.post_shares(post_id);
+
+-- Counter maintenance. These run as SECURITY DEFINER because the UPDATE
+-- policies on posts, comments and stories only allow the owner to write.
+CREATE OR REPLACE FUNCTION public.update_post_likes_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts SET likes_count = likes_count + 1 WHERE id = NEW.post_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.posts SET likes_count = GREATEST(likes_count - 1, 0) WHERE id = OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_post_comments_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts SET comments_count = comments_count + 1 WHERE id = NEW.post_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.posts SET comments_count = GREATEST(comments_count - 1, 0) WHERE id = OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_post_reposts_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts SET reposts_count = reposts_count + 1 WHERE id = NEW.post_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.posts SET reposts_count = GREATEST(reposts_count - 1, 0) WHERE id = OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_post_shares_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts SET shares_count = shares_count + 1 WHERE id = NEW.post_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.posts SET shares_count = GREATEST(shares_count - 1, 0) WHERE id = OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_comment_likes_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.comments SET likes_count = likes_count + 1 WHERE id = NEW.comment_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.comments SET likes_count = GREATEST(likes_count - 1, 0) WHERE id = OLD.comment_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_story_likes_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.stories SET likes_count = likes_count + 1 WHERE id = NEW.story_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.stories SET likes_count = GREATEST(likes_count - 1, 0) WHERE id = OLD.story_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_post_likes_count
+  AFTER INSERT OR DELETE ON public.likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_post_likes_count();
+
+CREATE TRIGGER update_post_comments_count
+  AFTER INSERT OR DELETE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_post_comments_count();
+
+CREATE TRIGGER update_post_reposts_count
+  AFTER INSERT OR DELETE ON public.reposts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_post_reposts_count();
+
+CREATE TRIGGER update_post_shares_count
+  AFTER INSERT OR DELETE ON public.post_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_post_shares_count();
+
+CREATE TRIGGER update_comment_likes_count
+  AFTER INSERT OR DELETE ON public.comment_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_comment_likes_count();
+
+CREATE TRIGGER update_story_likes_count
+  AFTER INSERT OR DELETE ON public.story_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_story_likes_count();
+
+-- Counter bumps shouldn't look like edits
+DROP TRIGGER IF EXISTS update_posts_updated_at ON public.posts;
+CREATE TRIGGER update_posts_updated_at
+BEFORE UPDATE ON public.posts
+FOR EACH ROW
+WHEN (
+  OLD.likes_count = NEW.likes_count
+  AND OLD.comments_count = NEW.comments_count
+  AND OLD.reposts_count = NEW.reposts_count
+  AND OLD.shares_count = NEW.shares_count
+)
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_comments_updated_at ON public.comments;
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW
+  WHEN (OLD.likes_count = NEW.likes_count)
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Read counts from the counter columns
+DROP FUNCTION IF EXISTS public.get_feed_page(TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, UUID, UUID[]);
+
+CREATE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  reposts_count INTEGER,
+  shares_count INTEGER,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    p.likes_count,
+    p.comments_count,
+    p.reposts_count,
+    p.shares_count,
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    -- Bookmarks are only kept client-side for now
+    false,
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid())
+  FROM public.posts p
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE
+    CASE
+      WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+      WHEN p_feed = 'following' THEN
+        NOT p.is_spark
+        AND (
+          p.user_id = auth.uid()
+          OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+        )
+      ELSE NOT p.is_spark
+    END
+    AND (
+      p_cursor_created_at IS NULL
+      OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
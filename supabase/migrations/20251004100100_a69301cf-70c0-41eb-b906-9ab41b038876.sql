@@ -0,0 +1,41 @@
+-- Backfill engagement counters from existing rows. Only rows whose counts
+-- change are written, so updated_at isn't bumped on every existing row.
+WITH counts AS (
+  SELECT
+    p.id,
+    (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id) AS comments_count,
+    (SELECT count(*) FROM public.reposts r WHERE r.post_id = p.id) AS reposts_count,
+    (SELECT count(*) FROM public.post_shares s WHERE s.post_id = p.id) AS shares_count
+  FROM public.posts p
+)
+UPDATE public.posts p
+SET
+  likes_count = counts.likes_count,
+  comments_count = counts.comments_count,
+  reposts_count = counts.reposts_count,
+  shares_count = counts.shares_count
+FROM counts
+WHERE counts.id = p.id
+  AND (p.likes_count, p.comments_count, p.reposts_count, p.shares_count)
+    IS DISTINCT FROM (counts.likes_count, counts.comments_count, counts.reposts_count, counts.shares_count);
+
+WITH counts AS (
+  SELECT c.id, (SELECT count(*) FROM public.comment_likes cl WHERE cl.comment_id = c.id) AS likes_count
+  FROM public.comments c
+)
+UPDATE public.comments c
+SET likes_count = counts.likes_count
+FROM counts
+WHERE counts.id = c.id
+  AND c.likes_count IS DISTINCT FROM counts.likes_count;
+
+WITH counts AS (
+  SELECT s.id, (SELECT count(*) FROM public.story_likes sl WHERE sl.story_id = s.id) AS likes_count
+  FROM public.stories s
+)
+UPDATE public.stories s
+SET likes_count = counts.likes_count
+FROM counts
+WHERE counts.id = s.id
+  AND s.likes_count IS DISTINCT FROM counts.likes_count;
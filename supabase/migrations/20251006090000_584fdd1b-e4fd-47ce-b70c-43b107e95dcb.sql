@@ -0,0 +1,154 @@
+-- Create saved_collections table for optional named folders of saves
+CREATE TABLE public.saved_collections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+-- Create saved_posts table
+CREATE TABLE public.saved_posts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  collection_id UUID REFERENCES public.saved_collections(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, post_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.saved_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_posts ENABLE ROW LEVEL SECURITY;
+
+-- Saves are private to their owner
+CREATE POLICY "Users can view their own collections"
+ON public.saved_collections
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collections"
+ON public.saved_collections
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can rename their own collections"
+ON public.saved_collections
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collections"
+ON public.saved_collections
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own saved posts"
+ON public.saved_posts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can save posts"
+ON public.saved_posts
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    collection_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.saved_collections sc WHERE sc.id = collection_id AND sc.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can move their own saved posts"
+ON public.saved_posts
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    collection_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.saved_collections sc WHERE sc.id = collection_id AND sc.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can unsave posts"
+ON public.saved_posts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create indexes for the Saved page
+CREATE INDEX idx_saved_posts_user_created ON public.saved_posts(user_id, created_at DESC, id DESC);
+CREATE INDEX idx_saved_posts_collection_id ON public.saved_posts(collection_id);
+
+-- Report the viewer's saved flag from saved_posts
+CREATE OR REPLACE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  reposts_count INTEGER,
+  shares_count INTEGER,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    p.likes_count,
+    p.comments_count,
+    p.reposts_count,
+    p.shares_count,
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.saved_posts sp WHERE sp.post_id = p.id AND sp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid())
+  FROM public.posts p
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE
+    CASE
+      WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+      WHEN p_feed = 'following' THEN
+        NOT p.is_spark
+        AND (
+          p.user_id = auth.uid()
+          OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+        )
+      ELSE NOT p.is_spark
+    END
+    AND (
+      p_cursor_created_at IS NULL
+      OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
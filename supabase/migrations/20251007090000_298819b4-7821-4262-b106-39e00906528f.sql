@@ -0,0 +1,137 @@
+-- A user can't follow themselves
+DELETE FROM public.follows WHERE follower_id = following_id;
+
+ALTER TABLE public.follows
+ADD CONSTRAINT follows_no_self_follow CHECK (follower_id <> following_id);
+
+CREATE INDEX IF NOT EXISTS idx_follows_following_id ON public.follows (following_id);
+
+-- Create function to notify a user when someone follows them
+CREATE OR REPLACE FUNCTION public.notify_on_follow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor_name TEXT;
+BEGIN
+  -- Don't pile up notifications when someone unfollows and follows again
+  IF EXISTS (
+    SELECT 1 FROM public.notifications
+    WHERE user_id = NEW.following_id
+      AND actor_id = NEW.follower_id
+      AND type = 'follow'
+      AND read = false
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(display_name, handle, 'Someone')
+  INTO actor_name
+  FROM public.profiles
+  WHERE user_id = NEW.follower_id;
+
+  INSERT INTO public.notifications (
+    user_id,
+    type,
+    title,
+    message,
+    actor_id
+  ) VALUES (
+    NEW.following_id,
+    'follow',
+    'New Follower',
+    COALESCE(actor_name, 'Someone') || ' started following you',
+    NEW.follower_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Create trigger to notify on new follows
+DROP TRIGGER IF EXISTS notify_on_follow ON public.follows;
+CREATE TRIGGER notify_on_follow
+  AFTER INSERT ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_on_follow();
+
+-- Feed rows carry whether the viewer follows the author, so cards don't
+-- have to look it up one by one. The return type changes, so drop first.
+DROP FUNCTION IF EXISTS public.get_feed_page(TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, UUID, UUID[]);
+
+CREATE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  reposts_count INTEGER,
+  shares_count INTEGER,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN,
+  author_is_followed BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    p.likes_count,
+    p.comments_count,
+    p.reposts_count,
+    p.shares_count,
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.saved_posts sp WHERE sp.post_id = p.id AND sp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.follows f WHERE f.following_id = p.user_id AND f.follower_id = auth.uid())
+  FROM public.posts p
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE
+    CASE
+      WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+      WHEN p_feed = 'following' THEN
+        NOT p.is_spark
+        AND (
+          p.user_id = auth.uid()
+          OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+        )
+      ELSE NOT p.is_spark
+    END
+    AND (
+      p_cursor_created_at IS NULL
+      OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,147 @@
+-- Create post_media table for posts with more than one image or video
+CREATE TABLE public.post_media (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL CHECK (position >= 0 AND position < 10),
+  media_type TEXT NOT NULL CHECK (media_type IN ('image', 'video')),
+  storage_path TEXT NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  alt_text TEXT CHECK (char_length(alt_text) <= 1000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(post_id, position) DEFERRABLE INITIALLY IMMEDIATE
+);
+
+-- Enable RLS
+ALTER TABLE public.post_media ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for post_media
+CREATE POLICY "Post media is viewable by everyone"
+ON public.post_media
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can add media to their own posts"
+ON public.post_media
+FOR INSERT
+WITH CHECK (
+  EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_id AND posts.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update media on their own posts"
+ON public.post_media
+FOR UPDATE
+USING (
+  EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_id AND posts.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete media from their own posts"
+ON public.post_media
+FOR DELETE
+USING (
+  EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_id AND posts.user_id = auth.uid())
+);
+
+-- Existing single-media posts become one-item carousels
+INSERT INTO public.post_media (post_id, position, media_type, storage_path)
+SELECT id, 0, content_type, content_url
+FROM public.posts
+WHERE content_url IS NOT NULL
+  AND content_type IN ('image', 'video');
+
+-- Feed rows carry the ordered media list. The return type changes, so drop first.
+DROP FUNCTION IF EXISTS public.get_feed_page(TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, UUID, UUID[]);
+
+CREATE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  reposts_count INTEGER,
+  shares_count INTEGER,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN,
+  author_is_followed BOOLEAN,
+  media JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    p.likes_count,
+    p.comments_count,
+    p.reposts_count,
+    p.shares_count,
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.saved_posts sp WHERE sp.post_id = p.id AND sp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.follows f WHERE f.following_id = p.user_id AND f.follower_id = auth.uid()),
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'type', m.media_type,
+            'path', m.storage_path,
+            'width', m.width,
+            'height', m.height,
+            'alt', m.alt_text
+          )
+          ORDER BY m.position
+        )
+        FROM public.post_media m
+        WHERE m.post_id = p.id
+      ),
+      '[]'::jsonb
+    )
+  FROM public.posts p
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE
+    CASE
+      WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+      WHEN p_feed = 'following' THEN
+        NOT p.is_spark
+        AND (
+          p.user_id = auth.uid()
+          OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+        )
+      ELSE NOT p.is_spark
+    END
+    AND (
+      p_cursor_created_at IS NULL
+      OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
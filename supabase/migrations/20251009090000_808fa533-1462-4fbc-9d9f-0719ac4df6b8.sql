@@ -0,0 +1,182 @@
+-- Track when a post's caption or alt text was last edited
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+-- Create post_revisions table holding each earlier version of a post
+CREATE TABLE public.post_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  caption TEXT,
+  media_alt_text JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_post_revisions_post_id ON public.post_revisions (post_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written only by edit_post, so there are no write policies
+CREATE POLICY "Post revisions are viewable by everyone"
+ON public.post_revisions
+FOR SELECT
+USING (true);
+
+-- Create function to edit a post, keeping the previous version as a revision
+CREATE OR REPLACE FUNCTION public.edit_post(
+  p_post_id UUID,
+  p_caption TEXT,
+  p_media_alt_text JSONB DEFAULT '[]'::jsonb
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_caption TEXT;
+  old_alt_text JSONB;
+  new_alt_text JSONB;
+  edited TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  SELECT caption INTO old_caption
+  FROM public.posts
+  WHERE id = p_post_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found or not owned by the current user';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('id', id, 'alt', alt_text) ORDER BY position), '[]'::jsonb)
+  INTO old_alt_text
+  FROM public.post_media
+  WHERE post_id = p_post_id;
+
+  -- Apply alt text for media items that belong to this post
+  UPDATE public.post_media m
+  SET alt_text = NULLIF(btrim(item->>'alt'), '')
+  FROM jsonb_array_elements(COALESCE(p_media_alt_text, '[]'::jsonb)) AS item
+  WHERE m.post_id = p_post_id
+    AND m.id = (item->>'id')::uuid;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('id', id, 'alt', alt_text) ORDER BY position), '[]'::jsonb)
+  INTO new_alt_text
+  FROM public.post_media
+  WHERE post_id = p_post_id;
+
+  -- Nothing changed, nothing to record
+  IF old_caption IS NOT DISTINCT FROM p_caption AND old_alt_text = new_alt_text THEN
+    RETURN (SELECT edited_at FROM public.posts WHERE id = p_post_id);
+  END IF;
+
+  INSERT INTO public.post_revisions (post_id, caption, media_alt_text)
+  VALUES (p_post_id, old_caption, old_alt_text);
+
+  UPDATE public.posts
+  SET caption = p_caption,
+      edited_at = edited
+  WHERE id = p_post_id;
+
+  RETURN edited;
+END;
+$$;
+
+-- Feed rows carry edited_at for the "edited" marker. The return type changes, so drop first.
+DROP FUNCTION IF EXISTS public.get_feed_page(TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, UUID, UUID[]);
+
+CREATE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  reposts_count INTEGER,
+  shares_count INTEGER,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN,
+  author_is_followed BOOLEAN,
+  media JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    p.edited_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    p.likes_count,
+    p.comments_count,
+    p.reposts_count,
+    p.shares_count,
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.saved_posts sp WHERE sp.post_id = p.id AND sp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.follows f WHERE f.following_id = p.user_id AND f.follower_id = auth.uid()),
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'type', m.media_type,
+            'path', m.storage_path,
+            'width', m.width,
+            'height', m.height,
+            'alt', m.alt_text
+          )
+          ORDER BY m.position
+        )
+        FROM public.post_media m
+        WHERE m.post_id = p.id
+      ),
+      '[]'::jsonb
+    )
+  FROM public.posts p
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE
+    CASE
+      WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+      WHEN p_feed = 'following' THEN
+        NOT p.is_spark
+        AND (
+          p.user_id = auth.uid()
+          OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+        )
+      ELSE NOT p.is_spark
+    END
+    AND (
+      p_cursor_created_at IS NULL
+      OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,232 @@
+-- Create hashtags table
+CREATE TABLE public.hashtags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (name ~ '^[a-z0-9_]{1,50}$'),
+  posts_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create post_hashtags join table
+CREATE TABLE public.post_hashtags (
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  hashtag_id UUID NOT NULL REFERENCES public.hashtags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (post_id, hashtag_id)
+);
+
+CREATE INDEX idx_post_hashtags_hashtag_id ON public.post_hashtags (hashtag_id, post_id);
+CREATE INDEX idx_hashtags_posts_count ON public.hashtags (posts_count DESC);
+
+-- Enable RLS
+ALTER TABLE public.hashtags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_hashtags ENABLE ROW LEVEL SECURITY;
+
+-- Tags are written only by the caption trigger, so there are no write policies
+CREATE POLICY "Hashtags are viewable by everyone"
+ON public.hashtags
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Post hashtags are viewable by everyone"
+ON public.post_hashtags
+FOR SELECT
+USING (true);
+
+-- Create function to pull #tags out of a caption. Must match HASHTAG_PATTERN in src/lib/hashtags.ts
+CREATE OR REPLACE FUNCTION public.extract_hashtags(p_text TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[1])), '{}')
+  FROM regexp_matches(COALESCE(p_text, ''), '(?:^|[^A-Za-z0-9_&])#([A-Za-z0-9_]{1,50})(?![A-Za-z0-9_])', 'g') AS m;
+$$;
+
+-- Create function to index a post's tags from its caption
+CREATE OR REPLACE FUNCTION public.sync_post_hashtags(p_post_id UUID, p_caption TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tags TEXT[] := public.extract_hashtags(p_caption);
+BEGIN
+  DELETE FROM public.post_hashtags ph
+  USING public.hashtags h
+  WHERE ph.post_id = p_post_id
+    AND h.id = ph.hashtag_id
+    AND NOT (h.name = ANY(tags));
+
+  IF array_length(tags, 1) IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.hashtags (name)
+  SELECT unnest(tags)
+  ON CONFLICT (name) DO NOTHING;
+
+  INSERT INTO public.post_hashtags (post_id, hashtag_id)
+  SELECT p_post_id, h.id
+  FROM public.hashtags h
+  WHERE h.name = ANY(tags)
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+-- Only the trigger below should index tags
+REVOKE EXECUTE ON FUNCTION public.sync_post_hashtags(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.index_post_hashtags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.sync_post_hashtags(NEW.id, NEW.caption);
+  RETURN NEW;
+END;
+$$;
+
+-- Create trigger to index tags when a post is published or its caption edited
+DROP TRIGGER IF EXISTS index_post_hashtags ON public.posts;
+CREATE TRIGGER index_post_hashtags
+  AFTER INSERT OR UPDATE OF caption ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.index_post_hashtags();
+
+-- Create function to keep hashtags.posts_count in step with post_hashtags
+CREATE OR REPLACE FUNCTION public.update_hashtag_posts_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.hashtags SET posts_count = posts_count + 1 WHERE id = NEW.hashtag_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.hashtags SET posts_count = GREATEST(posts_count - 1, 0) WHERE id = OLD.hashtag_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_hashtag_posts_count ON public.post_hashtags;
+CREATE TRIGGER update_hashtag_posts_count
+  AFTER INSERT OR DELETE ON public.post_hashtags
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_hashtag_posts_count();
+
+-- Index tags in existing captions
+SELECT public.sync_post_hashtags(id, caption)
+FROM public.posts
+WHERE caption LIKE '%#%';
+
+-- The tag feed needs a new parameter, so drop the old signature first
+DROP FUNCTION IF EXISTS public.get_feed_page(TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, UUID, UUID[]);
+
+CREATE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  reposts_count INTEGER,
+  shares_count INTEGER,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN,
+  author_is_followed BOOLEAN,
+  media JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    p.edited_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    p.likes_count,
+    p.comments_count,
+    p.reposts_count,
+    p.shares_count,
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.saved_posts sp WHERE sp.post_id = p.id AND sp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.follows f WHERE f.following_id = p.user_id AND f.follower_id = auth.uid()),
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'type', m.media_type,
+            'path', m.storage_path,
+            'width', m.width,
+            'height', m.height,
+            'alt', m.alt_text
+          )
+          ORDER BY m.position
+        )
+        FROM public.post_media m
+        WHERE m.post_id = p.id
+      ),
+      '[]'::jsonb
+    )
+  FROM public.posts p
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE
+    CASE
+      WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+      WHEN p_feed = 'tag' THEN
+        p.id IN (
+          SELECT ph.post_id
+          FROM public.post_hashtags ph
+          JOIN public.hashtags h ON h.id = ph.hashtag_id
+          WHERE h.name = lower(p_tag)
+        )
+      WHEN p_feed = 'following' THEN
+        NOT p.is_spark
+        AND (
+          p.user_id = auth.uid()
+          OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+        )
+      ELSE NOT p.is_spark
+    END
+    AND (
+      p_cursor_created_at IS NULL
+      OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
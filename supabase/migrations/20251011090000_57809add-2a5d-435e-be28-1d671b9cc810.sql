@@ -0,0 +1,147 @@
+-- Mention notifications can point at the comment they came from
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+-- Mentions are matched case-insensitively against handles
+CREATE INDEX IF NOT EXISTS idx_profiles_handle_lower ON public.profiles (lower(handle));
+
+-- Create function to pull @handles out of text. Must match MENTION_PATTERN in src/lib/mentions.ts
+CREATE OR REPLACE FUNCTION public.extract_mentions(p_text TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[1])), '{}')
+  FROM regexp_matches(
+    COALESCE(p_text, ''),
+    '(?:^|[^A-Za-z0-9_.@])@([A-Za-z0-9_]+(?:\.[A-Za-z0-9_]+)*)',
+    'g'
+  ) AS m;
+$$;
+
+-- Create function to notify users newly mentioned in a piece of text.
+-- Handles already present in p_old_text were notified before and are skipped.
+CREATE OR REPLACE FUNCTION public.notify_mentions(
+  p_text TEXT,
+  p_old_text TEXT,
+  p_actor_id UUID,
+  p_context TEXT,
+  p_post_id UUID DEFAULT NULL,
+  p_comment_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  handles TEXT[];
+  actor_name TEXT;
+BEGIN
+  SELECT array_agg(h)
+  INTO handles
+  FROM unnest(public.extract_mentions(p_text)) AS h
+  WHERE NOT (h = ANY(public.extract_mentions(p_old_text)));
+
+  IF handles IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(display_name, handle, 'Someone')
+  INTO actor_name
+  FROM public.profiles
+  WHERE user_id = p_actor_id;
+
+  INSERT INTO public.notifications (
+    user_id,
+    type,
+    title,
+    message,
+    actor_id,
+    post_id,
+    comment_id
+  )
+  SELECT
+    pr.user_id,
+    'mention',
+    'New Mention',
+    COALESCE(actor_name, 'Someone') || ' mentioned you in ' || p_context,
+    p_actor_id,
+    p_post_id,
+    p_comment_id
+  FROM public.profiles pr
+  WHERE lower(pr.handle) = ANY(handles)
+    AND pr.user_id <> p_actor_id;
+END;
+$$;
+
+-- Only the triggers below should send mention notifications
+REVOKE EXECUTE ON FUNCTION public.notify_mentions(TEXT, TEXT, UUID, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_post_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.notify_mentions(
+    NEW.caption,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.caption END,
+    NEW.user_id,
+    CASE WHEN NEW.is_spark THEN 'a spark' ELSE 'a post' END,
+    NEW.id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.notify_mentions(
+    NEW.content,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.content END,
+    NEW.user_id,
+    'a comment',
+    NEW.post_id,
+    NEW.id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_story_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.notify_mentions(NEW.caption, NULL, NEW.user_id, 'their story');
+  RETURN NEW;
+END;
+$$;
+
+-- Create triggers to notify mentioned users
+DROP TRIGGER IF EXISTS notify_post_mentions ON public.posts;
+CREATE TRIGGER notify_post_mentions
+  AFTER INSERT OR UPDATE OF caption ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_post_mentions();
+
+DROP TRIGGER IF EXISTS notify_comment_mentions ON public.comments;
+CREATE TRIGGER notify_comment_mentions
+  AFTER INSERT OR UPDATE OF content ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_comment_mentions();
+
+DROP TRIGGER IF EXISTS notify_story_mentions ON public.stories;
+CREATE TRIGGER notify_story_mentions
+  AFTER INSERT ON public.stories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_story_mentions();
@@ -0,0 +1,169 @@
+-- Comments can reply to another comment on the same post
+ALTER TABLE public.comments
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+-- Set when a comment with replies is deleted and kept as a "[deleted]" placeholder
+ALTER TABLE public.comments
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON public.comments(parent_id);
+
+-- Create function to keep threads one level deep and on the parent's post.
+-- Replying to a reply attaches to the top-level comment it belongs to.
+CREATE OR REPLACE FUNCTION public.normalize_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, post_id, parent_id, deleted_at
+  INTO parent
+  FROM public.comments
+  WHERE id = NEW.parent_id;
+
+  IF NOT FOUND OR parent.post_id <> NEW.post_id THEN
+    RAISE EXCEPTION 'Parent comment not found on this post';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND parent.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot reply to a deleted comment';
+  END IF;
+
+  NEW.parent_id := COALESCE(parent.parent_id, parent.id);
+  RETURN NEW;
+END;
+$$;
+
+-- Create function to keep a deleted comment as a placeholder while it has replies
+CREATE OR REPLACE FUNCTION public.soft_delete_comment_with_replies()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Deleting the post cascades through here; let those rows go
+  IF NOT EXISTS (SELECT 1 FROM public.posts WHERE id = OLD.post_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.comments WHERE parent_id = OLD.id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF OLD.deleted_at IS NULL THEN
+    UPDATE public.comments
+    SET content = '[deleted]',
+        deleted_at = now()
+    WHERE id = OLD.id;
+
+    DELETE FROM public.comment_likes WHERE comment_id = OLD.id;
+  END IF;
+
+  -- Skip the delete itself
+  RETURN NULL;
+END;
+$$;
+
+-- Create function to drop a placeholder once its last reply is gone
+CREATE OR REPLACE FUNCTION public.cleanup_deleted_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.parent_id IS NOT NULL THEN
+    DELETE FROM public.comments
+    WHERE id = OLD.parent_id
+      AND deleted_at IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.comments WHERE parent_id = OLD.parent_id);
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+-- Create function to notify the author of the comment being replied to
+CREATE OR REPLACE FUNCTION public.notify_on_comment_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent_author UUID;
+  actor_name TEXT;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id
+  INTO parent_author
+  FROM public.comments
+  WHERE id = NEW.parent_id;
+
+  IF parent_author IS NULL OR parent_author = NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(display_name, handle, 'Someone')
+  INTO actor_name
+  FROM public.profiles
+  WHERE user_id = NEW.user_id;
+
+  INSERT INTO public.notifications (
+    user_id,
+    type,
+    title,
+    message,
+    actor_id,
+    post_id,
+    comment_id
+  )
+  VALUES (
+    parent_author,
+    'reply',
+    'New Reply',
+    COALESCE(actor_name, 'Someone') || ' replied to your comment',
+    NEW.user_id,
+    NEW.post_id,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Create triggers for threading
+DROP TRIGGER IF EXISTS normalize_comment_parent ON public.comments;
+CREATE TRIGGER normalize_comment_parent
+  BEFORE INSERT OR UPDATE OF parent_id, post_id ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_comment_parent();
+
+DROP TRIGGER IF EXISTS soft_delete_comment_with_replies ON public.comments;
+CREATE TRIGGER soft_delete_comment_with_replies
+  BEFORE DELETE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.soft_delete_comment_with_replies();
+
+DROP TRIGGER IF EXISTS cleanup_deleted_comment_parent ON public.comments;
+CREATE TRIGGER cleanup_deleted_comment_parent
+  AFTER DELETE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cleanup_deleted_comment_parent();
+
+DROP TRIGGER IF EXISTS notify_on_comment_reply ON public.comments;
+CREATE TRIGGER notify_on_comment_reply
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_on_comment_reply();
@@ -0,0 +1,108 @@
+-- Denormalized reply counter so collapsed threads can show "View N replies"
+ALTER TABLE public.comments
+ADD COLUMN IF NOT EXISTS replies_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.update_comment_replies_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.parent_id IS NOT NULL THEN
+    UPDATE public.comments SET replies_count = replies_count + 1 WHERE id = NEW.parent_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.parent_id IS NOT NULL THEN
+    UPDATE public.comments SET replies_count = GREATEST(replies_count - 1, 0) WHERE id = OLD.parent_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_comment_replies_count ON public.comments;
+CREATE TRIGGER update_comment_replies_count
+  AFTER INSERT OR DELETE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_comment_replies_count();
+
+-- Only touch comments whose count is off, with updated_at left alone so the
+-- backfill doesn't look like an edit
+ALTER TABLE public.comments DISABLE TRIGGER update_comments_updated_at;
+
+WITH counts AS (
+  SELECT c.id, (SELECT count(*) FROM public.comments r WHERE r.parent_id = c.id) AS replies_count
+  FROM public.comments c
+)
+UPDATE public.comments c
+SET replies_count = counts.replies_count
+FROM counts
+WHERE counts.id = c.id
+  AND c.replies_count IS DISTINCT FROM counts.replies_count;
+
+ALTER TABLE public.comments ENABLE TRIGGER update_comments_updated_at;
+
+-- Indexes for the two top-level sort orders
+CREATE INDEX IF NOT EXISTS idx_comments_post_newest ON public.comments(post_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_comments_post_top ON public.comments(post_id, likes_count DESC, created_at DESC);
+
+-- Create function returning one page of comments with author and viewer state.
+-- Top-level comments sort by p_sort ('top' or 'newest'); replies to p_parent_id
+-- come oldest first; p_comment_ids fetches specific comments instead.
+CREATE OR REPLACE FUNCTION public.get_comments_page(
+  p_post_id UUID,
+  p_sort TEXT DEFAULT 'newest',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_parent_id UUID DEFAULT NULL,
+  p_comment_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  post_id UUID,
+  user_id UUID,
+  parent_id UUID,
+  content TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  likes_count INTEGER,
+  replies_count INTEGER,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  viewer_has_liked BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.post_id,
+    c.user_id,
+    c.parent_id,
+    c.content,
+    c.created_at,
+    c.deleted_at,
+    c.likes_count,
+    c.replies_count,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    EXISTS (SELECT 1 FROM public.comment_likes cl WHERE cl.comment_id = c.id AND cl.user_id = auth.uid())
+  FROM public.comments c
+  JOIN public.profiles pr ON pr.user_id = c.user_id
+  WHERE c.post_id = p_post_id
+    AND CASE
+      WHEN p_comment_ids IS NOT NULL THEN c.id = ANY(p_comment_ids)
+      WHEN p_parent_id IS NOT NULL THEN c.parent_id = p_parent_id
+      ELSE c.parent_id IS NULL
+    END
+  ORDER BY
+    CASE WHEN p_parent_id IS NOT NULL THEN c.created_at END ASC,
+    CASE WHEN p_parent_id IS NULL AND p_sort = 'top' THEN c.likes_count END DESC,
+    c.created_at DESC,
+    c.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
@@ -0,0 +1,278 @@
+-- Story comments move into comments so posts, sparks and stories share one
+-- comments subsystem (threads, likes, realtime, notifications)
+ALTER TABLE public.comments
+ADD COLUMN IF NOT EXISTS story_id UUID REFERENCES public.stories(id) ON DELETE CASCADE;
+
+ALTER TABLE public.comments
+ALTER COLUMN post_id DROP NOT NULL;
+
+ALTER TABLE public.comments
+ADD CONSTRAINT comments_single_target CHECK (num_nonnulls(post_id, story_id) = 1);
+
+CREATE INDEX IF NOT EXISTS idx_comments_story_id ON public.comments(story_id, created_at DESC, id DESC);
+
+ALTER TABLE public.stories
+ADD COLUMN IF NOT EXISTS comments_count INTEGER NOT NULL DEFAULT 0;
+
+-- Copied comments were already seen; don't send mention notifications again
+ALTER TABLE public.comments DISABLE TRIGGER notify_comment_mentions;
+
+INSERT INTO public.comments (id, story_id, user_id, content, created_at, updated_at)
+SELECT id, story_id, user_id, content, created_at, created_at
+FROM public.story_comments
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.comments ENABLE TRIGGER notify_comment_mentions;
+
+DROP TABLE public.story_comments;
+
+UPDATE public.stories s
+SET comments_count = (SELECT count(*) FROM public.comments c WHERE c.story_id = s.id)
+WHERE EXISTS (SELECT 1 FROM public.comments c WHERE c.story_id = s.id);
+
+-- Count comments against whichever post or story they belong to
+CREATE OR REPLACE FUNCTION public.update_post_comments_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.post_id IS NOT NULL THEN
+      UPDATE public.posts SET comments_count = comments_count + 1 WHERE id = NEW.post_id;
+    ELSE
+      UPDATE public.stories SET comments_count = comments_count + 1 WHERE id = NEW.story_id;
+    END IF;
+  ELSIF TG_OP = 'DELETE' THEN
+    IF OLD.post_id IS NOT NULL THEN
+      UPDATE public.posts SET comments_count = GREATEST(comments_count - 1, 0) WHERE id = OLD.post_id;
+    ELSE
+      UPDATE public.stories SET comments_count = GREATEST(comments_count - 1, 0) WHERE id = OLD.story_id;
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Replies must stay on their parent's post or story
+CREATE OR REPLACE FUNCTION public.normalize_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, post_id, story_id, parent_id, deleted_at
+  INTO parent
+  FROM public.comments
+  WHERE id = NEW.parent_id;
+
+  IF NOT FOUND
+    OR parent.post_id IS DISTINCT FROM NEW.post_id
+    OR parent.story_id IS DISTINCT FROM NEW.story_id THEN
+    RAISE EXCEPTION 'Parent comment not found on this post';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND parent.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot reply to a deleted comment';
+  END IF;
+
+  NEW.parent_id := COALESCE(parent.parent_id, parent.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.soft_delete_comment_with_replies()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Deleting the post or story cascades through here; let those rows go
+  IF NOT EXISTS (SELECT 1 FROM public.posts WHERE id = OLD.post_id)
+    AND NOT EXISTS (SELECT 1 FROM public.stories WHERE id = OLD.story_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.comments WHERE parent_id = OLD.id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF OLD.deleted_at IS NULL THEN
+    UPDATE public.comments
+    SET content = '[deleted]',
+        deleted_at = now()
+    WHERE id = OLD.id;
+
+    DELETE FROM public.comment_likes WHERE comment_id = OLD.id;
+  END IF;
+
+  -- Skip the delete itself
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.notify_mentions(
+    NEW.content,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.content END,
+    NEW.user_id,
+    CASE WHEN NEW.story_id IS NOT NULL THEN 'a story comment' ELSE 'a comment' END,
+    NEW.post_id,
+    NEW.id
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Create function to notify the owner of the post, spark or story commented on.
+-- This replaces the notification each screen used to insert itself.
+CREATE OR REPLACE FUNCTION public.notify_on_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id UUID;
+  target_label TEXT;
+  actor_name TEXT;
+BEGIN
+  IF NEW.post_id IS NOT NULL THEN
+    SELECT user_id, CASE WHEN is_spark THEN 'spark' ELSE 'post' END
+    INTO owner_id, target_label
+    FROM public.posts
+    WHERE id = NEW.post_id;
+  ELSE
+    SELECT user_id, 'story'
+    INTO owner_id, target_label
+    FROM public.stories
+    WHERE id = NEW.story_id;
+  END IF;
+
+  IF owner_id IS NULL OR owner_id = NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- Replying to the owner's own comment already sends them a reply notification
+  IF NEW.parent_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM public.comments WHERE id = NEW.parent_id AND user_id = owner_id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(display_name, handle, 'Someone')
+  INTO actor_name
+  FROM public.profiles
+  WHERE user_id = NEW.user_id;
+
+  INSERT INTO public.notifications (
+    user_id,
+    type,
+    title,
+    message,
+    actor_id,
+    post_id,
+    comment_id
+  )
+  VALUES (
+    owner_id,
+    'comment',
+    'New Comment',
+    COALESCE(actor_name, 'Someone') || ' commented on your ' || target_label,
+    NEW.user_id,
+    NEW.post_id,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_on_comment ON public.comments;
+CREATE TRIGGER notify_on_comment
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_on_comment();
+
+-- Page comments for either a post or a story
+DROP FUNCTION IF EXISTS public.get_comments_page(UUID, TEXT, INTEGER, INTEGER, UUID, UUID[]);
+
+CREATE FUNCTION public.get_comments_page(
+  p_post_id UUID DEFAULT NULL,
+  p_story_id UUID DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_parent_id UUID DEFAULT NULL,
+  p_comment_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  post_id UUID,
+  story_id UUID,
+  user_id UUID,
+  parent_id UUID,
+  content TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  likes_count INTEGER,
+  replies_count INTEGER,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  viewer_has_liked BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.post_id,
+    c.story_id,
+    c.user_id,
+    c.parent_id,
+    c.content,
+    c.created_at,
+    c.deleted_at,
+    c.likes_count,
+    c.replies_count,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    EXISTS (SELECT 1 FROM public.comment_likes cl WHERE cl.comment_id = c.id AND cl.user_id = auth.uid())
+  FROM public.comments c
+  JOIN public.profiles pr ON pr.user_id = c.user_id
+  WHERE (
+      (p_post_id IS NOT NULL AND c.post_id = p_post_id)
+      OR (p_story_id IS NOT NULL AND c.story_id = p_story_id)
+    )
+    AND CASE
+      WHEN p_comment_ids IS NOT NULL THEN c.id = ANY(p_comment_ids)
+      WHEN p_parent_id IS NOT NULL THEN c.parent_id = p_parent_id
+      ELSE c.parent_id IS NULL
+    END
+  ORDER BY
+    CASE WHEN p_parent_id IS NOT NULL THEN c.created_at END ASC,
+    CASE WHEN p_parent_id IS NULL AND p_sort = 'top' THEN c.likes_count END DESC,
+    c.created_at DESC,
+    c.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
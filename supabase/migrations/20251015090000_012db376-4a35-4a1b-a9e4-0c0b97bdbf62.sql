@@ -0,0 +1,210 @@
+-- Create reactions table: a user can leave each emoji once per post
+CREATE TABLE public.reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (emoji IN ('❤️', '😂', '🔥', '😮', '😢', '👏')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, post_id, emoji)
+);
+
+-- Enable RLS
+ALTER TABLE public.reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reactions are viewable by everyone"
+ON public.reactions
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can add their own reactions"
+ON public.reactions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own reactions"
+ON public.reactions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_reactions_post_id ON public.reactions(post_id);
+
+-- Route reactions through the realtime hub like likes and comments
+ALTER TABLE public.reactions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.reactions;
+
+-- Create function to notify the author when someone reacts to their post
+CREATE OR REPLACE FUNCTION public.notify_on_reaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  author_id UUID;
+  target_label TEXT;
+  actor_name TEXT;
+BEGIN
+  SELECT user_id, CASE WHEN is_spark THEN 'spark' ELSE 'post' END
+  INTO author_id, target_label
+  FROM public.posts
+  WHERE id = NEW.post_id;
+
+  IF author_id IS NULL OR author_id = NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(display_name, handle, 'Someone')
+  INTO actor_name
+  FROM public.profiles
+  WHERE user_id = NEW.user_id;
+
+  INSERT INTO public.notifications (
+    user_id,
+    type,
+    title,
+    message,
+    actor_id,
+    post_id
+  )
+  VALUES (
+    author_id,
+    'reaction',
+    'New Reaction',
+    COALESCE(actor_name, 'Someone') || ' reacted ' || NEW.emoji || ' to your ' || target_label,
+    NEW.user_id,
+    NEW.post_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_on_reaction
+  AFTER INSERT ON public.reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_on_reaction();
+
+-- Add per-emoji reaction counts and the viewer's reactions to the feed
+DROP FUNCTION IF EXISTS public.get_feed_page(TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, UUID, UUID[], TEXT);
+
+CREATE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  reposts_count INTEGER,
+  shares_count INTEGER,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN,
+  author_is_followed BOOLEAN,
+  media JSONB,
+  reaction_counts JSONB,
+  viewer_reactions TEXT[]
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    p.edited_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    p.likes_count,
+    p.comments_count,
+    p.reposts_count,
+    p.shares_count,
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.saved_posts sp WHERE sp.post_id = p.id AND sp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.follows f WHERE f.following_id = p.user_id AND f.follower_id = auth.uid()),
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'type', m.media_type,
+            'path', m.storage_path,
+            'width', m.width,
+            'height', m.height,
+            'alt', m.alt_text
+          )
+          ORDER BY m.position
+        )
+        FROM public.post_media m
+        WHERE m.post_id = p.id
+      ),
+      '[]'::jsonb
+    ),
+    COALESCE(
+      (
+        SELECT jsonb_object_agg(rc.emoji, rc.count)
+        FROM (
+          SELECT re.emoji, count(*) AS count
+          FROM public.reactions re
+          WHERE re.post_id = p.id
+          GROUP BY re.emoji
+        ) rc
+      ),
+      '{}'::jsonb
+    ),
+    COALESCE(
+      (SELECT array_agg(re.emoji) FROM public.reactions re WHERE re.post_id = p.id AND re.user_id = auth.uid()),
+      '{}'
+    )
+  FROM public.posts p
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE
+    CASE
+      WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+      WHEN p_feed = 'tag' THEN
+        p.id IN (
+          SELECT ph.post_id
+          FROM public.post_hashtags ph
+          JOIN public.hashtags h ON h.id = ph.hashtag_id
+          WHERE h.name = lower(p_tag)
+        )
+      WHEN p_feed = 'following' THEN
+        NOT p.is_spark
+        AND (
+          p.user_id = auth.uid()
+          OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+        )
+      ELSE NOT p.is_spark
+    END
+    AND (
+      p_cursor_created_at IS NULL
+      OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
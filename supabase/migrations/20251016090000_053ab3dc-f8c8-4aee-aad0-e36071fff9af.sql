@@ -0,0 +1,328 @@
+-- Allow poll posts
+ALTER TABLE public.posts DROP CONSTRAINT IF EXISTS posts_content_type_check;
+
+ALTER TABLE public.posts ADD CONSTRAINT posts_content_type_check
+CHECK (content_type IN ('text', 'image', 'video', 'poll'));
+
+-- When voting ends, and when the closing notification went out
+ALTER TABLE public.posts
+ADD COLUMN poll_closes_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN poll_closed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.posts ADD CONSTRAINT posts_poll_closes_at_check
+CHECK ((content_type = 'poll') = (poll_closes_at IS NOT NULL));
+
+-- Create poll options table: 2 to 4 choices per poll, in display order
+CREATE TABLE public.poll_options (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position BETWEEN 0 AND 3),
+  label TEXT NOT NULL CHECK (char_length(btrim(label)) BETWEEN 1 AND 80),
+  votes_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (post_id, position)
+);
+
+-- Create poll votes table: one vote per user per poll
+CREATE TABLE public.poll_votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES public.poll_options(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (post_id, user_id)
+);
+
+CREATE INDEX idx_poll_votes_option_id ON public.poll_votes(option_id);
+
+-- Enable RLS
+ALTER TABLE public.poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Poll options are viewable by everyone"
+ON public.poll_options
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can add options to their own polls"
+ON public.poll_options
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_id
+      AND posts.user_id = auth.uid()
+      AND posts.content_type = 'poll'
+  )
+);
+
+CREATE POLICY "Poll votes are viewable by everyone"
+ON public.poll_votes
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can cast their own votes"
+ON public.poll_votes
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Create function to check a vote belongs to an open poll
+CREATE OR REPLACE FUNCTION public.validate_poll_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  option_post_id UUID;
+  closes_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT o.post_id, p.poll_closes_at
+  INTO option_post_id, closes_at
+  FROM public.poll_options o
+  JOIN public.posts p ON p.id = o.post_id
+  WHERE o.id = NEW.option_id;
+
+  IF option_post_id IS DISTINCT FROM NEW.post_id THEN
+    RAISE EXCEPTION 'Poll option does not belong to this post';
+  END IF;
+
+  IF closes_at <= now() THEN
+    RAISE EXCEPTION 'This poll has closed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_poll_vote
+  BEFORE INSERT ON public.poll_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_poll_vote();
+
+-- Create function to keep poll_options.votes_count in sync
+CREATE OR REPLACE FUNCTION public.update_poll_option_votes_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.poll_options
+    SET votes_count = votes_count + 1
+    WHERE id = NEW.option_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.poll_options
+    SET votes_count = GREATEST(votes_count - 1, 0)
+    WHERE id = OLD.option_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_poll_option_votes_count
+  AFTER INSERT OR DELETE ON public.poll_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_poll_option_votes_count();
+
+-- Route votes through the realtime hub so percentages stay live
+ALTER TABLE public.poll_votes REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.poll_votes;
+
+-- Create function to mark expired polls closed and notify their authors
+CREATE OR REPLACE FUNCTION public.close_expired_polls()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH closed AS (
+    UPDATE public.posts
+    SET poll_closed_at = now()
+    WHERE content_type = 'poll'
+      AND poll_closed_at IS NULL
+      AND poll_closes_at <= now()
+    RETURNING id, user_id
+  )
+  INSERT INTO public.notifications (
+    user_id,
+    type,
+    title,
+    message,
+    actor_id,
+    post_id
+  )
+  SELECT
+    c.user_id,
+    'poll_closed',
+    'Poll Closed',
+    CASE
+      WHEN total.votes = 0 THEN 'Your poll has closed with no votes'
+      WHEN total.votes = 1 THEN 'Your poll has closed with 1 vote'
+      ELSE 'Your poll has closed with ' || total.votes || ' votes'
+    END,
+    c.user_id,
+    c.id
+  FROM closed c
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(sum(o.votes_count), 0) AS votes
+    FROM public.poll_options o
+    WHERE o.post_id = c.id
+  ) total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_expired_polls() FROM PUBLIC, anon, authenticated;
+
+-- Check for expired polls every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('close-expired-polls', '* * * * *', $$SELECT public.close_expired_polls()$$);
+
+-- Feed rows carry the poll. The return type changes, so drop first.
+DROP FUNCTION IF EXISTS public.get_feed_page(TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, UUID, UUID[], TEXT);
+
+CREATE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  reposts_count INTEGER,
+  shares_count INTEGER,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN,
+  author_is_followed BOOLEAN,
+  media JSONB,
+  reaction_counts JSONB,
+  viewer_reactions TEXT[],
+  poll JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    p.edited_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    p.likes_count,
+    p.comments_count,
+    p.reposts_count,
+    p.shares_count,
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.saved_posts sp WHERE sp.post_id = p.id AND sp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.follows f WHERE f.following_id = p.user_id AND f.follower_id = auth.uid()),
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'type', m.media_type,
+            'path', m.storage_path,
+            'width', m.width,
+            'height', m.height,
+            'alt', m.alt_text
+          )
+          ORDER BY m.position
+        )
+        FROM public.post_media m
+        WHERE m.post_id = p.id
+      ),
+      '[]'::jsonb
+    ),
+    COALESCE(
+      (
+        SELECT jsonb_object_agg(rc.emoji, rc.count)
+        FROM (
+          SELECT re.emoji, count(*) AS count
+          FROM public.reactions re
+          WHERE re.post_id = p.id
+          GROUP BY re.emoji
+        ) rc
+      ),
+      '{}'::jsonb
+    ),
+    COALESCE(
+      (SELECT array_agg(re.emoji) FROM public.reactions re WHERE re.post_id = p.id AND re.user_id = auth.uid()),
+      '{}'
+    ),
+    CASE
+      WHEN p.content_type = 'poll' THEN
+        jsonb_build_object(
+          'closes_at', p.poll_closes_at,
+          'options', COALESCE(
+            (
+              SELECT jsonb_agg(
+                jsonb_build_object('id', o.id, 'label', o.label, 'votes', o.votes_count)
+                ORDER BY o.position
+              )
+              FROM public.poll_options o
+              WHERE o.post_id = p.id
+            ),
+            '[]'::jsonb
+          ),
+          'viewer_option_id', (
+            SELECT v.option_id FROM public.poll_votes v WHERE v.post_id = p.id AND v.user_id = auth.uid()
+          )
+        )
+    END
+  FROM public.posts p
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE
+    CASE
+      WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+      WHEN p_feed = 'tag' THEN
+        p.id IN (
+          SELECT ph.post_id
+          FROM public.post_hashtags ph
+          JOIN public.hashtags h ON h.id = ph.hashtag_id
+          WHERE h.name = lower(p_tag)
+        )
+      WHEN p_feed = 'following' THEN
+        NOT p.is_spark
+        AND (
+          p.user_id = auth.uid()
+          OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+        )
+      ELSE NOT p.is_spark
+    END
+    AND (
+      p_cursor_created_at IS NULL
+      OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
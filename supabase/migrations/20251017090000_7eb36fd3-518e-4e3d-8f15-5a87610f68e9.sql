@@ -0,0 +1,191 @@
+-- Create link previews table: OpenGraph metadata for the first URL in a caption
+CREATE TABLE public.link_previews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL UNIQUE REFERENCES public.posts(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  site_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.link_previews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Link previews are viewable by everyone"
+ON public.link_previews
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can add previews to their own posts"
+ON public.link_previews
+FOR INSERT
+WITH CHECK (
+  EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_id AND posts.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can remove previews from their own posts"
+ON public.link_previews
+FOR DELETE
+USING (
+  EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_id AND posts.user_id = auth.uid())
+);
+
+-- Feed rows carry the link preview. The return type changes, so drop first.
+DROP FUNCTION IF EXISTS public.get_feed_page(TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, UUID, UUID[], TEXT);
+
+CREATE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  reposts_count INTEGER,
+  shares_count INTEGER,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN,
+  author_is_followed BOOLEAN,
+  media JSONB,
+  reaction_counts JSONB,
+  viewer_reactions TEXT[],
+  poll JSONB,
+  link_preview JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    p.edited_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    p.likes_count,
+    p.comments_count,
+    p.reposts_count,
+    p.shares_count,
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.saved_posts sp WHERE sp.post_id = p.id AND sp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.follows f WHERE f.following_id = p.user_id AND f.follower_id = auth.uid()),
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'type', m.media_type,
+            'path', m.storage_path,
+            'width', m.width,
+            'height', m.height,
+            'alt', m.alt_text
+          )
+          ORDER BY m.position
+        )
+        FROM public.post_media m
+        WHERE m.post_id = p.id
+      ),
+      '[]'::jsonb
+    ),
+    COALESCE(
+      (
+        SELECT jsonb_object_agg(rc.emoji, rc.count)
+        FROM (
+          SELECT re.emoji, count(*) AS count
+          FROM public.reactions re
+          WHERE re.post_id = p.id
+          GROUP BY re.emoji
+        ) rc
+      ),
+      '{}'::jsonb
+    ),
+    COALESCE(
+      (SELECT array_agg(re.emoji) FROM public.reactions re WHERE re.post_id = p.id AND re.user_id = auth.uid()),
+      '{}'
+    ),
+    CASE
+      WHEN p.content_type = 'poll' THEN
+        jsonb_build_object(
+          'closes_at', p.poll_closes_at,
+          'options', COALESCE(
+            (
+              SELECT jsonb_agg(
+                jsonb_build_object('id', o.id, 'label', o.label, 'votes', o.votes_count)
+                ORDER BY o.position
+              )
+              FROM public.poll_options o
+              WHERE o.post_id = p.id
+            ),
+            '[]'::jsonb
+          ),
+          'viewer_option_id', (
+            SELECT v.option_id FROM public.poll_votes v WHERE v.post_id = p.id AND v.user_id = auth.uid()
+          )
+        )
+    END,
+    (
+      SELECT jsonb_build_object(
+        'url', lp.url,
+        'title', lp.title,
+        'description', lp.description,
+        'image_url', lp.image_url,
+        'site_name', lp.site_name
+      )
+      FROM public.link_previews lp
+      WHERE lp.post_id = p.id
+    )
+  FROM public.posts p
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE
+    CASE
+      WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+      WHEN p_feed = 'tag' THEN
+        p.id IN (
+          SELECT ph.post_id
+          FROM public.post_hashtags ph
+          JOIN public.hashtags h ON h.id = ph.hashtag_id
+          WHERE h.name = lower(p_tag)
+        )
+      WHEN p_feed = 'following' THEN
+        NOT p.is_spark
+        AND (
+          p.user_id = auth.uid()
+          OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+        )
+      ELSE NOT p.is_spark
+    END
+    AND (
+      p_cursor_created_at IS NULL
+      OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
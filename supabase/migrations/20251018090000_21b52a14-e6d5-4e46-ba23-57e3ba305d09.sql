@@ -0,0 +1,313 @@
+-- Create post offers table: a brand account's promotion attached to one post
+CREATE TABLE public.post_offers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL UNIQUE REFERENCES public.posts(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 80),
+  code TEXT NOT NULL CHECK (char_length(btrim(code)) BETWEEN 1 AND 40),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  landing_url TEXT NOT NULL CHECK (landing_url ~* '^https?://'),
+  claims_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create offer claims table: one claim per user per offer
+CREATE TABLE public.offer_claims (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  offer_id UUID NOT NULL REFERENCES public.post_offers(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (offer_id, user_id)
+);
+
+CREATE INDEX idx_offer_claims_user_id ON public.offer_claims(user_id);
+
+-- Enable RLS
+ALTER TABLE public.post_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.offer_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Post offers are viewable by everyone"
+ON public.post_offers
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Brand accounts can add offers to their own posts"
+ON public.post_offers
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1
+    FROM public.posts
+    JOIN public.profiles ON profiles.user_id = posts.user_id
+    WHERE posts.id = post_id
+      AND posts.user_id = auth.uid()
+      AND profiles.account_type = 'brand'
+  )
+);
+
+CREATE POLICY "Brand accounts can remove offers from their own posts"
+ON public.post_offers
+FOR DELETE
+USING (
+  EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_id AND posts.user_id = auth.uid())
+);
+
+-- The code is only handed out by claim_offer
+REVOKE SELECT ON public.post_offers FROM anon, authenticated;
+GRANT SELECT (id, post_id, title, expires_at, landing_url, claims_count, created_at)
+ON public.post_offers TO anon, authenticated;
+
+CREATE POLICY "Users can view their own claims"
+ON public.offer_claims
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Brands can view claims on their offers"
+ON public.offer_claims
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.post_offers o
+    JOIN public.posts p ON p.id = o.post_id
+    WHERE o.id = offer_id
+      AND p.user_id = auth.uid()
+  )
+);
+
+-- Create function to keep post_offers.claims_count in sync
+CREATE OR REPLACE FUNCTION public.update_offer_claims_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.post_offers
+    SET claims_count = claims_count + 1
+    WHERE id = NEW.offer_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.post_offers
+    SET claims_count = GREATEST(claims_count - 1, 0)
+    WHERE id = OLD.offer_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_offer_claims_count
+  AFTER INSERT OR DELETE ON public.offer_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_offer_claims_count();
+
+-- Create function to claim an offer and reveal its code. Claiming again
+-- returns the same code without counting a second redemption.
+CREATE OR REPLACE FUNCTION public.claim_offer(p_offer_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer_code TEXT;
+  offer_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT code, expires_at
+  INTO offer_code, offer_expires_at
+  FROM public.post_offers
+  WHERE id = p_offer_id;
+
+  IF offer_code IS NULL THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.offer_claims WHERE offer_id = p_offer_id AND user_id = auth.uid()) THEN
+    IF offer_expires_at <= now() THEN
+      RAISE EXCEPTION 'This offer has expired';
+    END IF;
+
+    INSERT INTO public.offer_claims (offer_id, user_id)
+    VALUES (p_offer_id, auth.uid())
+    ON CONFLICT (offer_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN offer_code;
+END;
+$$;
+
+-- Feed rows carry the offer. The return type changes, so drop first.
+DROP FUNCTION IF EXISTS public.get_feed_page(TEXT, INTEGER, TIMESTAMP WITH TIME ZONE, UUID, UUID[], TEXT);
+
+CREATE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  reposts_count INTEGER,
+  shares_count INTEGER,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN,
+  author_is_followed BOOLEAN,
+  media JSONB,
+  reaction_counts JSONB,
+  viewer_reactions TEXT[],
+  poll JSONB,
+  link_preview JSONB,
+  offer JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    p.edited_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    p.likes_count,
+    p.comments_count,
+    p.reposts_count,
+    p.shares_count,
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.saved_posts sp WHERE sp.post_id = p.id AND sp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.follows f WHERE f.following_id = p.user_id AND f.follower_id = auth.uid()),
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'type', m.media_type,
+            'path', m.storage_path,
+            'width', m.width,
+            'height', m.height,
+            'alt', m.alt_text
+          )
+          ORDER BY m.position
+        )
+        FROM public.post_media m
+        WHERE m.post_id = p.id
+      ),
+      '[]'::jsonb
+    ),
+    COALESCE(
+      (
+        SELECT jsonb_object_agg(rc.emoji, rc.count)
+        FROM (
+          SELECT re.emoji, count(*) AS count
+          FROM public.reactions re
+          WHERE re.post_id = p.id
+          GROUP BY re.emoji
+        ) rc
+      ),
+      '{}'::jsonb
+    ),
+    COALESCE(
+      (SELECT array_agg(re.emoji) FROM public.reactions re WHERE re.post_id = p.id AND re.user_id = auth.uid()),
+      '{}'
+    ),
+    CASE
+      WHEN p.content_type = 'poll' THEN
+        jsonb_build_object(
+          'closes_at', p.poll_closes_at,
+          'options', COALESCE(
+            (
+              SELECT jsonb_agg(
+                jsonb_build_object('id', o.id, 'label', o.label, 'votes', o.votes_count)
+                ORDER BY o.position
+              )
+              FROM public.poll_options o
+              WHERE o.post_id = p.id
+            ),
+            '[]'::jsonb
+          ),
+          'viewer_option_id', (
+            SELECT v.option_id FROM public.poll_votes v WHERE v.post_id = p.id AND v.user_id = auth.uid()
+          )
+        )
+    END,
+    (
+      SELECT jsonb_build_object(
+        'url', lp.url,
+        'title', lp.title,
+        'description', lp.description,
+        'image_url', lp.image_url,
+        'site_name', lp.site_name
+      )
+      FROM public.link_previews lp
+      WHERE lp.post_id = p.id
+    ),
+    (
+      SELECT jsonb_build_object(
+        'id', o.id,
+        'title', o.title,
+        'expires_at', o.expires_at,
+        'landing_url', o.landing_url,
+        'claims_count', o.claims_count,
+        'viewer_has_claimed', EXISTS (
+          SELECT 1 FROM public.offer_claims oc WHERE oc.offer_id = o.id AND oc.user_id = auth.uid()
+        )
+      )
+      FROM public.post_offers o
+      WHERE o.post_id = p.id
+    )
+  FROM public.posts p
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE
+    CASE
+      WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+      WHEN p_feed = 'tag' THEN
+        p.id IN (
+          SELECT ph.post_id
+          FROM public.post_hashtags ph
+          JOIN public.hashtags h ON h.id = ph.hashtag_id
+          WHERE h.name = lower(p_tag)
+        )
+      WHEN p_feed = 'following' THEN
+        NOT p.is_spark
+        AND (
+          p.user_id = auth.uid()
+          OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+        )
+      ELSE NOT p.is_spark
+    END
+    AND (
+      p_cursor_created_at IS NULL
+      OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT p_limit;
+$$;
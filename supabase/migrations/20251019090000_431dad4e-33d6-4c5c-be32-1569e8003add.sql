@@ -0,0 +1,112 @@
+-- Pins are shown at the top of the pinner's profile, so they only make sense
+-- for a user's own posts. Drop pins on other people's posts and pins whose
+-- post no longer exists.
+DELETE FROM public.pinned_posts pp
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.posts p WHERE p.id = pp.post_id AND p.user_id = pp.user_id
+);
+
+-- Keep the three most recent pins per user
+DELETE FROM public.pinned_posts
+WHERE id IN (
+  SELECT id
+  FROM (
+    SELECT id, row_number() OVER (PARTITION BY user_id ORDER BY created_at DESC) AS rank
+    FROM public.pinned_posts
+  ) ranked
+  WHERE ranked.rank > 3
+);
+
+-- Unpin automatically when the post is deleted
+ALTER TABLE public.pinned_posts
+ADD CONSTRAINT pinned_posts_post_id_fkey
+FOREIGN KEY (post_id) REFERENCES public.posts(id) ON DELETE CASCADE;
+
+-- Order of pins on the profile, lowest first
+ALTER TABLE public.pinned_posts ADD COLUMN position INTEGER;
+
+UPDATE public.pinned_posts pp
+SET position = ordered.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY user_id ORDER BY created_at) - 1 AS position
+  FROM public.pinned_posts
+) ordered
+WHERE ordered.id = pp.id;
+
+ALTER TABLE public.pinned_posts ALTER COLUMN position SET NOT NULL;
+
+CREATE INDEX idx_pinned_posts_user_position ON public.pinned_posts(user_id, position);
+
+DROP POLICY IF EXISTS "Users can pin posts" ON public.pinned_posts;
+
+CREATE POLICY "Users can pin their own posts"
+ON public.pinned_posts
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_id AND posts.user_id = auth.uid())
+);
+
+-- Create function to cap pins at three per user and append new pins last
+CREATE OR REPLACE FUNCTION public.enforce_pinned_posts_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pin_count INTEGER;
+  last_position INTEGER;
+BEGIN
+  -- Serialize pins per user so two concurrent pins can't both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext('pinned_posts:' || NEW.user_id::text));
+
+  SELECT count(*), max(position)
+  INTO pin_count, last_position
+  FROM public.pinned_posts
+  WHERE user_id = NEW.user_id;
+
+  IF pin_count >= 3 THEN
+    RAISE EXCEPTION 'You can pin up to 3 posts';
+  END IF;
+
+  NEW.position := COALESCE(last_position + 1, 0);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_pinned_posts_limit
+  BEFORE INSERT ON public.pinned_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_pinned_posts_limit();
+
+-- Create function to reorder the caller's pins. p_post_ids must list exactly
+-- the posts they have pinned, in the new order.
+CREATE OR REPLACE FUNCTION public.reorder_pinned_posts(p_post_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF (
+    SELECT array_agg(post_id ORDER BY post_id)
+    FROM public.pinned_posts
+    WHERE user_id = auth.uid()
+  ) IS DISTINCT FROM (
+    SELECT array_agg(DISTINCT id ORDER BY id) FROM unnest(p_post_ids) AS id
+  ) OR cardinality(p_post_ids) <> (SELECT count(*) FROM public.pinned_posts WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Pinned posts have changed, reload and try again';
+  END IF;
+
+  UPDATE public.pinned_posts pp
+  SET position = ordered.position - 1
+  FROM unnest(p_post_ids) WITH ORDINALITY AS ordered(post_id, position)
+  WHERE pp.user_id = auth.uid()
+    AND pp.post_id = ordered.post_id;
+END;
+$$;
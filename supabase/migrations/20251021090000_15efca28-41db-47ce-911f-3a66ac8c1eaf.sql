@@ -0,0 +1,524 @@
+-- Scheduled posts and sparks are stored unpublished with the time they
+-- should go live. Everything else is published on insert.
+ALTER TABLE public.posts
+ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN is_published BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE public.posts
+ADD CONSTRAINT posts_publish_at_check
+CHECK (is_published OR publish_at IS NOT NULL);
+
+CREATE INDEX idx_posts_scheduled ON public.posts(user_id, publish_at) WHERE NOT is_published;
+
+-- Only the author can see a post before it is published
+DROP POLICY IF EXISTS "Posts are viewable by everyone" ON public.posts;
+
+CREATE POLICY "Published posts are viewable by everyone"
+ON public.posts
+FOR SELECT
+USING (is_published OR auth.uid() = user_id);
+
+-- Create function to keep the publish state moving forward. A published
+-- post can't go back to scheduled, and publishing moves it to the top of
+-- the feed.
+CREATE OR REPLACE FUNCTION public.handle_post_publish_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_published AND NOT NEW.is_published THEN
+    RAISE EXCEPTION 'Published posts cannot be scheduled';
+  END IF;
+
+  IF NOT OLD.is_published AND NEW.is_published THEN
+    NEW.created_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_post_publish_state
+  BEFORE UPDATE OF is_published ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_post_publish_state();
+
+-- Rewards are earned when a post goes live, not when it is queued
+DROP TRIGGER IF EXISTS award_points_on_post ON public.posts;
+CREATE TRIGGER award_points_on_post
+  AFTER INSERT ON public.posts
+  FOR EACH ROW
+  WHEN (NEW.is_published)
+  EXECUTE FUNCTION public.award_post_points();
+
+CREATE TRIGGER award_points_on_publish
+  AFTER UPDATE OF is_published ON public.posts
+  FOR EACH ROW
+  WHEN (NOT OLD.is_published AND NEW.is_published)
+  EXECUTE FUNCTION public.award_post_points();
+
+-- Create function to tell the author their post is live. This used to be
+-- sent by the composer, which can't do it for scheduled posts.
+CREATE OR REPLACE FUNCTION public.notify_post_published()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notifications (
+    user_id,
+    type,
+    title,
+    message,
+    actor_id,
+    post_id
+  )
+  VALUES (
+    NEW.user_id,
+    'post',
+    'Post Published',
+    'Your ' || CASE WHEN NEW.is_spark THEN 'spark' ELSE 'post' END || ' has been published successfully!',
+    NEW.user_id,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_post_published
+  AFTER INSERT ON public.posts
+  FOR EACH ROW
+  WHEN (NEW.is_published)
+  EXECUTE FUNCTION public.notify_post_published();
+
+CREATE TRIGGER notify_post_published_on_publish
+  AFTER UPDATE OF is_published ON public.posts
+  FOR EACH ROW
+  WHEN (NOT OLD.is_published AND NEW.is_published)
+  EXECUTE FUNCTION public.notify_post_published();
+
+-- Mentioned users hear about a scheduled post once it is live
+CREATE OR REPLACE FUNCTION public.notify_post_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.is_published THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.notify_mentions(
+    NEW.caption,
+    CASE WHEN TG_OP = 'UPDATE' AND OLD.is_published THEN OLD.caption END,
+    NEW.user_id,
+    CASE WHEN NEW.is_spark THEN 'a spark' ELSE 'a post' END,
+    NEW.id
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_post_mentions ON public.posts;
+CREATE TRIGGER notify_post_mentions
+  AFTER INSERT OR UPDATE OF caption, is_published ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_post_mentions();
+
+-- Create function to publish scheduled posts whose time has come
+CREATE OR REPLACE FUNCTION public.publish_scheduled_posts()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.posts
+  SET is_published = true
+  WHERE NOT is_published
+    AND publish_at <= now();
+END;
+$$;
+
+-- Only the scheduled job should publish posts
+REVOKE EXECUTE ON FUNCTION public.publish_scheduled_posts() FROM PUBLIC, anon, authenticated;
+
+-- Check for posts due to publish every minute
+SELECT cron.schedule('publish-scheduled-posts', '* * * * *', $$SELECT public.publish_scheduled_posts()$$);
+
+-- Create function to move a scheduled post to a new time. Polls keep their
+-- duration, so their closing time moves with it.
+CREATE OR REPLACE FUNCTION public.reschedule_post(
+  p_post_id UUID,
+  p_publish_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_publish_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_publish_at <= now() THEN
+    RAISE EXCEPTION 'Scheduled time must be in the future';
+  END IF;
+
+  SELECT publish_at INTO old_publish_at
+  FROM public.posts
+  WHERE id = p_post_id
+    AND user_id = auth.uid()
+    AND NOT is_published
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scheduled post not found or not owned by the current user';
+  END IF;
+
+  UPDATE public.posts
+  SET publish_at = p_publish_at,
+      poll_closes_at = poll_closes_at + (p_publish_at - old_publish_at)
+  WHERE id = p_post_id;
+END;
+$$;
+
+-- Changes to a post that isn't live yet aren't edits anyone needs to see,
+-- so they skip the revision history
+CREATE OR REPLACE FUNCTION public.edit_post(
+  p_post_id UUID,
+  p_caption TEXT,
+  p_media_alt_text JSONB DEFAULT '[]'::jsonb
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_caption TEXT;
+  old_alt_text JSONB;
+  new_alt_text JSONB;
+  published BOOLEAN;
+  edited TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  SELECT caption, is_published INTO old_caption, published
+  FROM public.posts
+  WHERE id = p_post_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found or not owned by the current user';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('id', id, 'alt', alt_text) ORDER BY position), '[]'::jsonb)
+  INTO old_alt_text
+  FROM public.post_media
+  WHERE post_id = p_post_id;
+
+  -- Apply alt text for media items that belong to this post
+  UPDATE public.post_media m
+  SET alt_text = NULLIF(btrim(item->>'alt'), '')
+  FROM jsonb_array_elements(COALESCE(p_media_alt_text, '[]'::jsonb)) AS item
+  WHERE m.post_id = p_post_id
+    AND m.id = (item->>'id')::uuid;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('id', id, 'alt', alt_text) ORDER BY position), '[]'::jsonb)
+  INTO new_alt_text
+  FROM public.post_media
+  WHERE post_id = p_post_id;
+
+  -- Nothing changed, nothing to record
+  IF old_caption IS NOT DISTINCT FROM p_caption AND old_alt_text = new_alt_text THEN
+    RETURN (SELECT edited_at FROM public.posts WHERE id = p_post_id);
+  END IF;
+
+  IF NOT published THEN
+    UPDATE public.posts
+    SET caption = p_caption
+    WHERE id = p_post_id;
+
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.post_revisions (post_id, caption, media_alt_text)
+  VALUES (p_post_id, old_caption, old_alt_text);
+
+  UPDATE public.posts
+  SET caption = p_caption,
+      edited_at = edited
+  WHERE id = p_post_id;
+
+  RETURN edited;
+END;
+$$;
+
+-- Feeds only show published posts. Lookups by id are left to the posts
+-- policy, so authors can still open their own scheduled posts.
+CREATE OR REPLACE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  reposts_count INTEGER,
+  shares_count INTEGER,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN,
+  author_is_followed BOOLEAN,
+  media JSONB,
+  reaction_counts JSONB,
+  viewer_reactions TEXT[],
+  poll JSONB,
+  link_preview JSONB,
+  offer JSONB,
+  quoted_post JSONB,
+  feed_item_id UUID,
+  feed_created_at TIMESTAMP WITH TIME ZONE,
+  reposted_by JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  -- Feed items are original posts plus reposts, each placed at its own time.
+  -- The cursor is the (feed_created_at, feed_item_id) of the last item.
+  WITH items AS (
+    (
+      SELECT p.id AS post_id, p.id AS item_id, p.created_at AS item_created_at, NULL::UUID AS reposter_id
+      FROM public.posts p
+      WHERE
+        CASE
+          WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+          WHEN p_feed = 'tag' THEN
+            p.id IN (
+              SELECT ph.post_id
+              FROM public.post_hashtags ph
+              JOIN public.hashtags h ON h.id = ph.hashtag_id
+              WHERE h.name = lower(p_tag)
+            )
+          WHEN p_feed = 'following' THEN
+            NOT p.is_spark
+            AND (
+              p.user_id = auth.uid()
+              OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+            )
+          WHEN p_feed = 'profile' THEN NOT p.is_spark AND p.user_id = p_user_id
+          ELSE NOT p.is_spark
+        END
+        AND (p.is_published OR p_post_ids IS NOT NULL)
+        AND (
+          p_cursor_created_at IS NULL
+          OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+        )
+      ORDER BY p.created_at DESC, p.id DESC
+      LIMIT p_limit
+    )
+
+    UNION ALL
+
+    (
+      SELECT r.post_id, r.id, r.created_at, r.user_id
+      FROM public.reposts r
+      JOIN public.posts rp ON rp.id = r.post_id
+      WHERE
+        p_post_ids IS NULL
+        AND NOT rp.is_spark
+        AND rp.is_published
+        AND CASE
+          WHEN p_feed = 'following' THEN
+            r.user_id = auth.uid()
+            OR r.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+          WHEN p_feed = 'profile' THEN r.user_id = p_user_id
+          WHEN p_feed = 'tag' THEN false
+          ELSE true
+        END
+        AND (
+          p_cursor_created_at IS NULL
+          OR (r.created_at, r.id) < (p_cursor_created_at, p_cursor_id)
+        )
+      ORDER BY r.created_at DESC, r.id DESC
+      LIMIT p_limit
+    )
+  ),
+  page AS (
+    SELECT *
+    FROM items
+    ORDER BY items.item_created_at DESC, items.item_id DESC
+    LIMIT p_limit
+  ),
+  -- A post reposted several times, or posted and reposted, shows once per
+  -- page at its most recent spot
+  deduped AS (
+    SELECT DISTINCT ON (page.post_id) *
+    FROM page
+    ORDER BY page.post_id, page.item_created_at DESC, page.item_id DESC
+  )
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    p.edited_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    p.likes_count,
+    p.comments_count,
+    p.reposts_count,
+    p.shares_count,
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.saved_posts sp WHERE sp.post_id = p.id AND sp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.follows f WHERE f.following_id = p.user_id AND f.follower_id = auth.uid()),
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'type', m.media_type,
+            'path', m.storage_path,
+            'width', m.width,
+            'height', m.height,
+            'alt', m.alt_text
+          )
+          ORDER BY m.position
+        )
+        FROM public.post_media m
+        WHERE m.post_id = p.id
+      ),
+      '[]'::jsonb
+    ),
+    COALESCE(
+      (
+        SELECT jsonb_object_agg(rc.emoji, rc.count)
+        FROM (
+          SELECT re.emoji, count(*) AS count
+          FROM public.reactions re
+          WHERE re.post_id = p.id
+          GROUP BY re.emoji
+        ) rc
+      ),
+      '{}'::jsonb
+    ),
+    COALESCE(
+      (SELECT array_agg(re.emoji) FROM public.reactions re WHERE re.post_id = p.id AND re.user_id = auth.uid()),
+      '{}'
+    ),
+    CASE
+      WHEN p.content_type = 'poll' THEN
+        jsonb_build_object(
+          'closes_at', p.poll_closes_at,
+          'options', COALESCE(
+            (
+              SELECT jsonb_agg(
+                jsonb_build_object('id', o.id, 'label', o.label, 'votes', o.votes_count)
+                ORDER BY o.position
+              )
+              FROM public.poll_options o
+              WHERE o.post_id = p.id
+            ),
+            '[]'::jsonb
+          ),
+          'viewer_option_id', (
+            SELECT v.option_id FROM public.poll_votes v WHERE v.post_id = p.id AND v.user_id = auth.uid()
+          )
+        )
+    END,
+    (
+        SELECT jsonb_build_object(
+          'url', lp.url,
+          'title', lp.title,
+          'description', lp.description,
+          'image_url', lp.image_url,
+          'site_name', lp.site_name
+        )
+        FROM public.link_previews lp
+        WHERE lp.post_id = p.id
+      ),
+    (
+        SELECT jsonb_build_object(
+          'id', o.id,
+          'title', o.title,
+          'expires_at', o.expires_at,
+          'landing_url', o.landing_url,
+          'claims_count', o.claims_count,
+          'viewer_has_claimed', EXISTS (
+            SELECT 1 FROM public.offer_claims oc WHERE oc.offer_id = o.id AND oc.user_id = auth.uid()
+          )
+        )
+        FROM public.post_offers o
+        WHERE o.post_id = p.id
+      ),
+    (
+        SELECT jsonb_build_object(
+          'id', q.id,
+          'user_id', q.user_id,
+          'caption', q.caption,
+          'is_spark', q.is_spark,
+          'created_at', q.created_at,
+          'author_display_name', qpr.display_name,
+          'author_handle', qpr.handle,
+          'author_avatar_url', qpr.avatar_url,
+          'author_verified', COALESCE(qpr.verified, false),
+          'cover', COALESCE(
+            (
+              SELECT jsonb_build_object('type', m.media_type, 'path', m.storage_path)
+              FROM public.post_media m
+              WHERE m.post_id = q.id
+              ORDER BY m.position
+              LIMIT 1
+            ),
+            CASE
+              WHEN q.content_url IS NOT NULL THEN jsonb_build_object('type', q.content_type, 'path', q.content_url)
+            END
+          )
+        )
+        FROM public.posts q
+        JOIN public.profiles qpr ON qpr.user_id = q.user_id
+        WHERE q.id = p.quoted_post_id
+      ),
+      d.item_id,
+      d.item_created_at,
+    (
+        SELECT jsonb_build_object(
+          'user_id', rpr.user_id,
+          'handle', rpr.handle,
+          'display_name', rpr.display_name
+        )
+        FROM public.profiles rpr
+        WHERE rpr.user_id = d.reposter_id
+    )
+  FROM deduped d
+  JOIN public.posts p ON p.id = d.post_id
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  ORDER BY d.item_created_at DESC, d.item_id DESC;
+$$;
@@ -0,0 +1,67 @@
+-- Create drafts table for unfinished posts, sparks and stories. Media lives
+-- in the private drafts bucket under the owner's folder.
+CREATE TABLE public.drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('post', 'spark', 'story')),
+  caption TEXT NOT NULL DEFAULT '',
+  -- [{ path, type, mime_type, name, width, height }] in display order
+  media JSONB NOT NULL DEFAULT '[]'::jsonb,
+  poll JSONB,
+  offer JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_drafts_user_id ON public.drafts(user_id, updated_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.drafts ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are private to their owner
+CREATE POLICY "Users can view their own drafts"
+ON public.drafts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own drafts"
+ON public.drafts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own drafts"
+ON public.drafts
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own drafts"
+ON public.drafts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_drafts_updated_at
+BEFORE UPDATE ON public.drafts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create private drafts storage bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('drafts', 'drafts', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage policies for drafts: only the owner can read or write their folder
+CREATE POLICY "Users can view their own draft media"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'drafts' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own draft media"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'drafts' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own draft media"
+  ON storage.objects FOR UPDATE
+  USING (bucket_id = 'drafts' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own draft media"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'drafts' AND auth.uid()::text = (storage.foldername(name))[1]);
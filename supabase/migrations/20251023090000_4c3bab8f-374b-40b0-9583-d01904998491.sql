@@ -0,0 +1,5 @@
+-- Story images are resized on the client before upload; keep their size so
+-- viewers can reserve space before the file loads
+ALTER TABLE public.stories
+ADD COLUMN IF NOT EXISTS width INTEGER CHECK (width > 0),
+ADD COLUMN IF NOT EXISTS height INTEGER CHECK (height > 0);
@@ -0,0 +1,277 @@
+-- Videos get a poster frame and their length, captured on the client when
+-- the file is picked. Posters are stored next to the video in the same bucket.
+ALTER TABLE public.post_media
+ADD COLUMN IF NOT EXISTS poster_path TEXT,
+ADD COLUMN IF NOT EXISTS duration_seconds REAL CHECK (duration_seconds >= 0);
+
+ALTER TABLE public.stories
+ADD COLUMN IF NOT EXISTS poster_url TEXT,
+ADD COLUMN IF NOT EXISTS duration_seconds REAL CHECK (duration_seconds >= 0);
+
+-- Include posters and durations in feed media and quoted post covers
+CREATE OR REPLACE FUNCTION public.get_feed_page(
+  p_feed TEXT DEFAULT 'for_you',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_post_ids UUID[] DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content_type TEXT,
+  content_url TEXT,
+  caption TEXT,
+  is_spark BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  reposts_count INTEGER,
+  shares_count INTEGER,
+  viewer_has_liked BOOLEAN,
+  viewer_has_saved BOOLEAN,
+  viewer_has_pinned BOOLEAN,
+  viewer_has_reposted BOOLEAN,
+  author_is_followed BOOLEAN,
+  media JSONB,
+  reaction_counts JSONB,
+  viewer_reactions TEXT[],
+  poll JSONB,
+  link_preview JSONB,
+  offer JSONB,
+  quoted_post JSONB,
+  feed_item_id UUID,
+  feed_created_at TIMESTAMP WITH TIME ZONE,
+  reposted_by JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  -- Feed items are original posts plus reposts, each placed at its own time.
+  -- The cursor is the (feed_created_at, feed_item_id) of the last item.
+  WITH items AS (
+    (
+      SELECT p.id AS post_id, p.id AS item_id, p.created_at AS item_created_at, NULL::UUID AS reposter_id
+      FROM public.posts p
+      WHERE
+        CASE
+          WHEN p_post_ids IS NOT NULL THEN p.id = ANY(p_post_ids)
+          WHEN p_feed = 'tag' THEN
+            p.id IN (
+              SELECT ph.post_id
+              FROM public.post_hashtags ph
+              JOIN public.hashtags h ON h.id = ph.hashtag_id
+              WHERE h.name = lower(p_tag)
+            )
+          WHEN p_feed = 'following' THEN
+            NOT p.is_spark
+            AND (
+              p.user_id = auth.uid()
+              OR p.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+            )
+          WHEN p_feed = 'profile' THEN NOT p.is_spark AND p.user_id = p_user_id
+          ELSE NOT p.is_spark
+        END
+        AND (p.is_published OR p_post_ids IS NOT NULL)
+        AND (
+          p_cursor_created_at IS NULL
+          OR (p.created_at, p.id) < (p_cursor_created_at, p_cursor_id)
+        )
+      ORDER BY p.created_at DESC, p.id DESC
+      LIMIT p_limit
+    )
+
+    UNION ALL
+
+    (
+      SELECT r.post_id, r.id, r.created_at, r.user_id
+      FROM public.reposts r
+      JOIN public.posts rp ON rp.id = r.post_id
+      WHERE
+        p_post_ids IS NULL
+        AND NOT rp.is_spark
+        AND rp.is_published
+        AND CASE
+          WHEN p_feed = 'following' THEN
+            r.user_id = auth.uid()
+            OR r.user_id IN (SELECT f.following_id FROM public.follows f WHERE f.follower_id = auth.uid())
+          WHEN p_feed = 'profile' THEN r.user_id = p_user_id
+          WHEN p_feed = 'tag' THEN false
+          ELSE true
+        END
+        AND (
+          p_cursor_created_at IS NULL
+          OR (r.created_at, r.id) < (p_cursor_created_at, p_cursor_id)
+        )
+      ORDER BY r.created_at DESC, r.id DESC
+      LIMIT p_limit
+    )
+  ),
+  page AS (
+    SELECT *
+    FROM items
+    ORDER BY items.item_created_at DESC, items.item_id DESC
+    LIMIT p_limit
+  ),
+  -- A post reposted several times, or posted and reposted, shows once per
+  -- page at its most recent spot
+  deduped AS (
+    SELECT DISTINCT ON (page.post_id) *
+    FROM page
+    ORDER BY page.post_id, page.item_created_at DESC, page.item_id DESC
+  )
+  SELECT
+    p.id,
+    p.user_id,
+    p.content_type,
+    p.content_url,
+    p.caption,
+    p.is_spark,
+    p.created_at,
+    p.edited_at,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    p.likes_count,
+    p.comments_count,
+    p.reposts_count,
+    p.shares_count,
+    EXISTS (SELECT 1 FROM public.likes l WHERE l.post_id = p.id AND l.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.saved_posts sp WHERE sp.post_id = p.id AND sp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.pinned_posts pp WHERE pp.post_id = p.id AND pp.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.reposts r WHERE r.post_id = p.id AND r.user_id = auth.uid()),
+    EXISTS (SELECT 1 FROM public.follows f WHERE f.following_id = p.user_id AND f.follower_id = auth.uid()),
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'type', m.media_type,
+            'path', m.storage_path,
+            'width', m.width,
+            'height', m.height,
+            'alt', m.alt_text,
+            'poster', m.poster_path,
+            'duration', m.duration_seconds
+          )
+          ORDER BY m.position
+        )
+        FROM public.post_media m
+        WHERE m.post_id = p.id
+      ),
+      '[]'::jsonb
+    ),
+    COALESCE(
+      (
+        SELECT jsonb_object_agg(rc.emoji, rc.count)
+        FROM (
+          SELECT re.emoji, count(*) AS count
+          FROM public.reactions re
+          WHERE re.post_id = p.id
+          GROUP BY re.emoji
+        ) rc
+      ),
+      '{}'::jsonb
+    ),
+    COALESCE(
+      (SELECT array_agg(re.emoji) FROM public.reactions re WHERE re.post_id = p.id AND re.user_id = auth.uid()),
+      '{}'
+    ),
+    CASE
+      WHEN p.content_type = 'poll' THEN
+        jsonb_build_object(
+          'closes_at', p.poll_closes_at,
+          'options', COALESCE(
+            (
+              SELECT jsonb_agg(
+                jsonb_build_object('id', o.id, 'label', o.label, 'votes', o.votes_count)
+                ORDER BY o.position
+              )
+              FROM public.poll_options o
+              WHERE o.post_id = p.id
+            ),
+            '[]'::jsonb
+          ),
+          'viewer_option_id', (
+            SELECT v.option_id FROM public.poll_votes v WHERE v.post_id = p.id AND v.user_id = auth.uid()
+          )
+        )
+    END,
+    (
+        SELECT jsonb_build_object(
+          'url', lp.url,
+          'title', lp.title,
+          'description', lp.description,
+          'image_url', lp.image_url,
+          'site_name', lp.site_name
+        )
+        FROM public.link_previews lp
+        WHERE lp.post_id = p.id
+      ),
+    (
+        SELECT jsonb_build_object(
+          'id', o.id,
+          'title', o.title,
+          'expires_at', o.expires_at,
+          'landing_url', o.landing_url,
+          'claims_count', o.claims_count,
+          'viewer_has_claimed', EXISTS (
+            SELECT 1 FROM public.offer_claims oc WHERE oc.offer_id = o.id AND oc.user_id = auth.uid()
+          )
+        )
+        FROM public.post_offers o
+        WHERE o.post_id = p.id
+      ),
+    (
+        SELECT jsonb_build_object(
+          'id', q.id,
+          'user_id', q.user_id,
+          'caption', q.caption,
+          'is_spark', q.is_spark,
+          'created_at', q.created_at,
+          'author_display_name', qpr.display_name,
+          'author_handle', qpr.handle,
+          'author_avatar_url', qpr.avatar_url,
+          'author_verified', COALESCE(qpr.verified, false),
+          'cover', COALESCE(
+            (
+              SELECT jsonb_build_object('type', m.media_type, 'path', m.storage_path, 'poster', m.poster_path)
+              FROM public.post_media m
+              WHERE m.post_id = q.id
+              ORDER BY m.position
+              LIMIT 1
+            ),
+            CASE
+              WHEN q.content_url IS NOT NULL THEN jsonb_build_object('type', q.content_type, 'path', q.content_url)
+            END
+          )
+        )
+        FROM public.posts q
+        JOIN public.profiles qpr ON qpr.user_id = q.user_id
+        WHERE q.id = p.quoted_post_id
+      ),
+      d.item_id,
+      d.item_created_at,
+    (
+        SELECT jsonb_build_object(
+          'user_id', rpr.user_id,
+          'handle', rpr.handle,
+          'display_name', rpr.display_name
+        )
+        FROM public.profiles rpr
+        WHERE rpr.user_id = d.reposter_id
+    )
+  FROM deduped d
+  JOIN public.posts p ON p.id = d.post_id
+  JOIN public.profiles pr ON pr.user_id = p.user_id
+  ORDER BY d.item_created_at DESC, d.item_id DESC;
+$$;
@@ -0,0 +1,37 @@
+-- Only soft-delete comments removed directly. Deletes cascading from a post,
+-- story, profile or parent comment run from a trigger (depth > 1) and must go
+-- through, or the cascade is cancelled and the parent's delete fails.
+CREATE OR REPLACE FUNCTION public.soft_delete_comment_with_replies()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+
+  -- The post or story is already gone; let the row go
+  IF NOT EXISTS (SELECT 1 FROM public.posts WHERE id = OLD.post_id)
+    AND NOT EXISTS (SELECT 1 FROM public.stories WHERE id = OLD.story_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.comments WHERE parent_id = OLD.id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF OLD.deleted_at IS NULL THEN
+    UPDATE public.comments
+    SET content = '[deleted]',
+        deleted_at = now()
+    WHERE id = OLD.id;
+
+    DELETE FROM public.comment_likes WHERE comment_id = OLD.id;
+  END IF;
+
+  -- Skip the delete itself
+  RETURN NULL;
+END;
+$$;
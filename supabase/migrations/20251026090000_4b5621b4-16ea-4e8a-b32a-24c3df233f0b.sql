@@ -0,0 +1,7 @@
+-- Reply counter bumps shouldn't look like edits
+DROP TRIGGER IF EXISTS update_comments_updated_at ON public.comments;
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW
+  WHEN (OLD.likes_count = NEW.likes_count AND OLD.replies_count = NEW.replies_count)
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,22 @@
+-- Drop story_comments now that its rows were copied into comments. Stop if
+-- any row is missing from comments so nothing is lost.
+DO $$
+BEGIN
+  -- Already gone where the copy migration dropped it
+  IF to_regclass('public.story_comments') IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.story_comments sc
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.comments c WHERE c.id = sc.id AND c.story_id = sc.story_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'story_comments has rows that were not copied into comments';
+  END IF;
+
+  DROP TABLE public.story_comments;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Link previews are written by the link-preview edge function, which fetches
+-- the page itself. Clients could otherwise store any title or image they like.
+DROP POLICY "Users can add previews to their own posts" ON public.link_previews;
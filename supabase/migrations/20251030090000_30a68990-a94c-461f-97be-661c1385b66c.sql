@@ -0,0 +1,82 @@
+-- Page comments by keyset instead of offset. Comments arrive and disappear
+-- live while a thread is open, which shifts offsets and repeats or skips rows.
+-- The cursor is the last row of the previous page: (created_at, id) for
+-- newest and replies, (likes_count, created_at, id) for top.
+DROP FUNCTION IF EXISTS public.get_comments_page(UUID, UUID, TEXT, INTEGER, INTEGER, UUID, UUID[]);
+
+CREATE FUNCTION public.get_comments_page(
+  p_post_id UUID DEFAULT NULL,
+  p_story_id UUID DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_cursor_likes_count INTEGER DEFAULT NULL,
+  p_parent_id UUID DEFAULT NULL,
+  p_comment_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  post_id UUID,
+  story_id UUID,
+  user_id UUID,
+  parent_id UUID,
+  content TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  likes_count INTEGER,
+  replies_count INTEGER,
+  author_display_name TEXT,
+  author_handle TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN,
+  viewer_has_liked BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.post_id,
+    c.story_id,
+    c.user_id,
+    c.parent_id,
+    c.content,
+    c.created_at,
+    c.deleted_at,
+    c.likes_count,
+    c.replies_count,
+    pr.display_name,
+    pr.handle,
+    pr.avatar_url,
+    COALESCE(pr.verified, false),
+    EXISTS (SELECT 1 FROM public.comment_likes cl WHERE cl.comment_id = c.id AND cl.user_id = auth.uid())
+  FROM public.comments c
+  JOIN public.profiles pr ON pr.user_id = c.user_id
+  WHERE (
+      (p_post_id IS NOT NULL AND c.post_id = p_post_id)
+      OR (p_story_id IS NOT NULL AND c.story_id = p_story_id)
+    )
+    AND CASE
+      WHEN p_comment_ids IS NOT NULL THEN c.id = ANY(p_comment_ids)
+      WHEN p_parent_id IS NOT NULL THEN c.parent_id = p_parent_id
+      ELSE c.parent_id IS NULL
+    END
+    AND (
+      p_cursor_id IS NULL
+      OR CASE
+        WHEN p_parent_id IS NOT NULL THEN (c.created_at, c.id) > (p_cursor_created_at, p_cursor_id)
+        WHEN p_sort = 'top' THEN
+          (c.likes_count, c.created_at, c.id) < (p_cursor_likes_count, p_cursor_created_at, p_cursor_id)
+        ELSE (c.created_at, c.id) < (p_cursor_created_at, p_cursor_id)
+      END
+    )
+  ORDER BY
+    CASE WHEN p_parent_id IS NOT NULL THEN c.created_at END ASC,
+    CASE WHEN p_parent_id IS NOT NULL THEN c.id END ASC,
+    CASE WHEN p_parent_id IS NULL AND p_sort = 'top' THEN c.likes_count END DESC,
+    c.created_at DESC,
+    c.id DESC
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,3 @@
+-- Realtime UPDATE payloads carry the full old row, so clients can tell the
+-- update that publishes a scheduled post from any other
+ALTER TABLE public.posts REPLICA IDENTITY FULL;
@@ -0,0 +1,109 @@
+-- Create function to write a post together with its media, poll options and
+-- offer in one transaction, so feeds and the publish triggers never see it
+-- half built and a failed child row leaves nothing behind. It runs as the
+-- caller, so the usual insert policies still apply to every row.
+--
+-- p_hold keeps a post that should go out now unpublished for one more step
+-- (its link preview). The author then publishes it with publish_post; if they
+-- never do, the scheduled job picks it up a minute later.
+CREATE OR REPLACE FUNCTION public.create_post(
+  p_caption TEXT,
+  p_content_type TEXT,
+  p_content_url TEXT DEFAULT NULL,
+  p_is_spark BOOLEAN DEFAULT false,
+  p_quoted_post_id UUID DEFAULT NULL,
+  p_publish_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_hold BOOLEAN DEFAULT false,
+  p_poll_closes_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  -- [{ media_type, storage_path, width, height, poster_path, duration_seconds }] in display order
+  p_media JSONB DEFAULT '[]'::jsonb,
+  p_poll_options TEXT[] DEFAULT NULL,
+  -- { title, code, expires_at, landing_url }
+  p_offer JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_post_id UUID;
+BEGIN
+  INSERT INTO public.posts (
+    user_id,
+    content_type,
+    content_url,
+    caption,
+    is_spark,
+    quoted_post_id,
+    poll_closes_at,
+    is_published,
+    publish_at
+  )
+  VALUES (
+    auth.uid(),
+    p_content_type,
+    p_content_url,
+    p_caption,
+    p_is_spark,
+    p_quoted_post_id,
+    p_poll_closes_at,
+    p_publish_at IS NULL AND NOT p_hold,
+    COALESCE(p_publish_at, CASE WHEN p_hold THEN now() + interval '1 minute' END)
+  )
+  RETURNING id INTO new_post_id;
+
+  INSERT INTO public.post_media (
+    post_id,
+    position,
+    media_type,
+    storage_path,
+    width,
+    height,
+    poster_path,
+    duration_seconds
+  )
+  SELECT
+    new_post_id,
+    m.ordinality - 1,
+    m.item->>'media_type',
+    m.item->>'storage_path',
+    (m.item->>'width')::INTEGER,
+    (m.item->>'height')::INTEGER,
+    m.item->>'poster_path',
+    (m.item->>'duration_seconds')::REAL
+  FROM jsonb_array_elements(COALESCE(p_media, '[]'::jsonb)) WITH ORDINALITY AS m(item, ordinality);
+
+  INSERT INTO public.poll_options (post_id, position, label)
+  SELECT new_post_id, o.ordinality - 1, o.label
+  FROM unnest(COALESCE(p_poll_options, '{}')) WITH ORDINALITY AS o(label, ordinality);
+
+  IF p_offer IS NOT NULL THEN
+    INSERT INTO public.post_offers (post_id, title, code, expires_at, landing_url)
+    VALUES (
+      new_post_id,
+      btrim(p_offer->>'title'),
+      btrim(p_offer->>'code'),
+      (p_offer->>'expires_at')::TIMESTAMP WITH TIME ZONE,
+      btrim(p_offer->>'landing_url')
+    );
+  END IF;
+
+  RETURN new_post_id;
+END;
+$$;
+
+-- Create function to publish a post held back by create_post
+CREATE OR REPLACE FUNCTION public.publish_post(p_post_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.posts
+  SET is_published = true
+  WHERE id = p_post_id
+    AND user_id = auth.uid()
+    AND NOT is_published;
+END;
+$$;
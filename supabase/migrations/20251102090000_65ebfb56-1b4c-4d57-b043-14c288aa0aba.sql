@@ -0,0 +1,13 @@
+-- Posts are only changed through edit_post (which records a revision),
+-- reschedule_post, publish_post and the counter triggers, all of which run
+-- as SECURITY DEFINER. Direct updates would skip the revision history.
+DROP POLICY IF EXISTS "Users can update their own posts" ON public.posts;
+REVOKE UPDATE ON public.posts FROM anon, authenticated;
+
+-- Earlier versions are only visible to those who can see the post itself
+DROP POLICY "Post revisions are viewable by everyone" ON public.post_revisions;
+
+CREATE POLICY "Post revisions are viewable with their post"
+ON public.post_revisions
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_id));